@@ -0,0 +1,100 @@
+import {describe, expect, it} from "vitest";
+import {checkCondition, parseCondition, testCondition} from "@/app/feed/conditions";
+import {TypedValue, ValueType} from "@/app/feed/values";
+
+const text = (value: string): TypedValue => ({type: ValueType.Text, value: value});
+
+const item: TypedValue = {
+    type: ValueType.Record,
+    value: {
+        title: [text("Release 2.0 of Rust")],
+        author: [text("bot"), text("Jane")],
+        date: [{type: ValueType.Date, value: "2024-03-01T10:00:00.000Z"}],
+        score: [{type: ValueType.Number, value: 42}]
+    }
+};
+
+/**
+ * Test the example item against a condition
+ */
+function matches(condition: string): boolean {
+    return testCondition(parseCondition(condition), item);
+}
+
+describe("parseCondition", () => {
+    it("binds and tighter than or, and not tighter than and", () => {
+        expect(parseCondition("a = 1 or b = 2 and not c = 3")).toEqual({
+            kind: "or",
+            conditions: [
+                {kind: "compare", field: "a", operator: "equals", operand: "1"},
+                {
+                    kind: "and",
+                    conditions: [
+                        {kind: "compare", field: "b", operator: "equals", operand: "2"},
+                        {kind: "not", condition: {kind: "compare", field: "c", operator: "equals", operand: "3"}}
+                    ]
+                }
+            ]
+        });
+    });
+
+    it("parses strings with escapes, and comparisons of values themselves", () => {
+        expect(parseCondition("contains \"say \\\"hi\\\"\"")).toEqual({kind: "compare", field: null, operator: "contains", operand: "say \"hi\""});
+    });
+
+    it("drops global and sticky regex flags", () => {
+        const condition = parseCondition("title matches /rust/giy");
+        expect(condition.kind == "compare" && condition.regex?.flags).toBe("i");
+    });
+});
+
+describe("checkCondition", () => {
+    it.each([
+        ["", "Condition is empty"],
+        ["title contains \"rust", "Unterminated string at position 16"],
+        ["title matches /rust", "Unterminated regex at position 15"],
+        ["title matches /(/", "Invalid regex at position 15"],
+        ["title contains /rust/", "Regex at position 16 can only be used with matches"],
+        ["title", "Expected a comparison such as contains, matches, equals or < at position 1, found title"],
+        ["title contains", "Expected a value to compare with at the end"],
+        ["(title contains rust", "Expected ) at the end"],
+        ["title contains rust author", "Expected and, or or the end at position 21, found author"],
+        ["!", "Unexpected character \"!\" at position 1"],
+        ["title ! rust", "Unexpected character \"!\" at position 7"]
+    ])("reports %j as invalid", (condition, message) => {
+        // Regex errors end with the JavaScript engine's own message
+        expect(checkCondition(condition)?.slice(0, message.length)).toBe(message);
+    });
+
+    it("accepts valid conditions", () => {
+        expect(checkCondition("title != rust and (score >= 10 or not author equals bot)")).toBeNull();
+    });
+});
+
+describe("testCondition", () => {
+    it("compares text ignoring case for contains, and exactly for equals", () => {
+        expect(matches("title contains rust")).toBe(true);
+        expect(matches("title equals \"release 2.0 of rust\"")).toBe(false);
+        expect(matches("title matches /^release \\d/i")).toBe(true);
+    });
+
+    it("holds if any value of a field satisfies the comparison", () => {
+        expect(matches("author = Jane")).toBe(true);
+        expect(matches("author != Jane")).toBe(true);
+        expect(matches("not author = Joe")).toBe(true);
+    });
+
+    it("compares numbers and dates by value", () => {
+        expect(matches("score > 9")).toBe(true);
+        expect(matches("score < 100")).toBe(true);
+        expect(matches("date >= 2024-03-01")).toBe(true);
+        expect(matches("date < 2024-01-01")).toBe(false);
+    });
+
+    it("never satisfies comparisons of missing fields or of values that are not records", () => {
+        expect(matches("missing = x")).toBe(false);
+        expect(matches("not missing = x")).toBe(true);
+        expect(testCondition(parseCondition("title contains rust"), text("rust"))).toBe(false);
+        expect(testCondition(parseCondition("contains rust"), text("Rust"))).toBe(true);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,291 @@
+// Boolean conditions over values and record fields, as used by the filter node
+
+import {convertValue, TypedValue, ValueType, valueText} from "@/app/feed/values";
+
+/**
+ * Comparison of a condition; `=` is the same as `equals`
+ */
+type Operator = "contains" | "matches" | "equals" | "!=" | "<" | "<=" | ">" | ">=";
+
+/**
+ * Parsed condition, see {@link parseCondition}
+ */
+export type Condition =
+    { kind: "and" | "or", conditions: Condition[] }
+    | { kind: "not", condition: Condition }
+    | {
+        kind: "compare",
+        /**
+         * Record field to test, null to test the value itself
+         */
+        field: string | null,
+        operator: Operator,
+        operand: string,
+        /**
+         * Compiled operand of `matches`
+         */
+        regex?: RegExp,
+        /**
+         * Operand of ordering comparisons as number or as date (milliseconds since epoch), if it is one
+         */
+        number?: number,
+        date?: number
+    };
+
+type Token = { kind: "(" | ")" | "string" | "regex" | "operator" | "word", text: string, flags?: string, position: number };
+
+const KEYWORD_OPERATORS = ["contains", "matches", "equals"];
+
+/**
+ * Split a condition into tokens
+ * @throws Error if the condition contains an unterminated string or regex, or an unexpected character
+ */
+function tokenize(text: string): Token[] {
+    let tokens = [] as Token[];
+    let position = 0;
+    while (position < text.length) {
+        const rest = text.slice(position);
+        let match;
+        if ((match = rest.match(/^\s+/)) != null) {
+            // Whitespace only separates tokens
+        } else if (rest[0] == "(" || rest[0] == ")") {
+            tokens.push({kind: rest[0], text: rest[0], position: position});
+            match = [rest[0]];
+        } else if (rest[0] == "\"") {
+            match = rest.match(/^"((?:[^"\\]|\\.)*)"/);
+            if (match == null) {
+                throw new Error("Unterminated string at position " + (position + 1));
+            }
+            tokens.push({kind: "string", text: match[1].replace(/\\(.)/g, "$1"), position: position});
+        } else if (rest[0] == "/") {
+            match = rest.match(/^\/((?:[^/\\]|\\.)+)\/([a-z]*)/);
+            if (match == null) {
+                throw new Error("Unterminated regex at position " + (position + 1));
+            }
+            tokens.push({kind: "regex", text: match[1], flags: match[2], position: position});
+        } else if ((match = rest.match(/^(?:<=|>=|!=|==|=|<|>)/)) != null) {
+            tokens.push({kind: "operator", text: match[0], position: position});
+        } else {
+            match = rest.match(/^[^\s()"<>=!]+/);
+            if (match == null) {
+                // Only a `!` not followed by `=` is left
+                throw new Error("Unexpected character \"" + rest[0] + "\" at position " + (position + 1));
+            }
+            tokens.push({kind: "word", text: match[0], position: position});
+        }
+        position += match[0].length;
+    }
+    return tokens;
+}
+
+/**
+ * Parse a condition
+ *
+ * Conditions compare a value, or a field of record values, e.g. `title contains "rust"`. Comparisons are combined with `and`, `or`, `not` and parentheses,
+ * e.g. `title matches /^release/i and not (date < 2024-01-01 or author equals "bot")`. Operators are:
+ * - `contains`: text contains the operand, ignoring case
+ * - `matches`: text matches the operand, a regex literal `/regex/flags` or a string
+ * - `equals` or `=`, and `!=`: text is (not) equal to the operand
+ * - `<`, `<=`, `>`, `>=`: compares numbers if the operand is a number, dates if it is a date, and text otherwise
+ *
+ * The field is omitted to test values themselves, e.g. `contains "rust"`. Operands are strings in double quotes, or single words.
+ *
+ * @param text Condition text
+ * @throws Error if the condition is invalid
+ */
+export function parseCondition(text: string): Condition {
+    const tokens = tokenize(text);
+    let index = 0;
+
+    function peek(): Token | undefined {
+        return tokens[index];
+    }
+
+    function isKeyword(token: Token | undefined, keyword: string): boolean {
+        return token?.kind == "word" && token.text.toLowerCase() == keyword;
+    }
+
+    function isOperator(token: Token | undefined): boolean {
+        return token?.kind == "operator" || (token?.kind == "word" && KEYWORD_OPERATORS.includes(token.text.toLowerCase()));
+    }
+
+    function unexpected(expected: string): Error {
+        const token = peek();
+        return new Error(token != undefined
+            ? "Expected " + expected + " at position " + (token.position + 1) + ", found " + token.text
+            : "Expected " + expected + " at the end");
+    }
+
+    function parseOr(): Condition {
+        let conditions = [parseAnd()];
+        while (isKeyword(peek(), "or")) {
+            index++;
+            conditions.push(parseAnd());
+        }
+        return conditions.length == 1 ? conditions[0] : {kind: "or", conditions: conditions};
+    }
+
+    function parseAnd(): Condition {
+        let conditions = [parseNot()];
+        while (isKeyword(peek(), "and")) {
+            index++;
+            conditions.push(parseNot());
+        }
+        return conditions.length == 1 ? conditions[0] : {kind: "and", conditions: conditions};
+    }
+
+    function parseNot(): Condition {
+        if (isKeyword(peek(), "not")) {
+            index++;
+            return {kind: "not", condition: parseNot()};
+        }
+        return parsePrimary();
+    }
+
+    function parsePrimary(): Condition {
+        if (peek()?.kind == "(") {
+            index++;
+            const condition = parseOr();
+            if (peek()?.kind != ")") {
+                throw unexpected(")");
+            }
+            index++;
+            return condition;
+        }
+
+        let field: string | null = null;
+        if (peek()?.kind == "word" && !isOperator(peek()) && isOperator(tokens[index + 1])) {
+            field = (peek() as Token).text;
+            index++;
+        }
+        if (!isOperator(peek())) {
+            throw unexpected("a comparison such as contains, matches, equals or <");
+        }
+        const operatorText = (peek() as Token).text.toLowerCase();
+        const operator = (operatorText == "=" || operatorText == "==" ? "equals" : operatorText) as Operator;
+        index++;
+
+        const operand = peek();
+        if (operand == undefined || !["string", "regex", "word"].includes(operand.kind)) {
+            throw unexpected("a value to compare with");
+        }
+        index++;
+        if (operand.kind == "regex" && operator != "matches") {
+            throw new Error("Regex at position " + (operand.position + 1) + " can only be used with matches");
+        }
+
+        let condition: Condition = {kind: "compare", field: field, operator: operator, operand: operand.text};
+        if (operator == "matches") {
+            try {
+                // Global and sticky flags would make repeated tests depend on each other
+                condition.regex = new RegExp(operand.text, (operand.flags ?? "").replace(/[gy]/g, ""));
+            } catch (e) {
+                throw new Error("Invalid regex at position " + (operand.position + 1) + ": " + (e as Error).message);
+            }
+        } else if (["<", "<=", ">", ">="].includes(operator)) {
+            const number = Number(operand.text);
+            const date = new Date(operand.text).getTime();
+            if (operand.text.trim().length > 0 && isFinite(number)) {
+                condition.number = number;
+            } else if (!isNaN(date)) {
+                condition.date = date;
+            }
+        }
+        return condition;
+    }
+
+    if (tokens.length == 0) {
+        throw new Error("Condition is empty");
+    }
+    const condition = parseOr();
+    if (index < tokens.length) {
+        throw unexpected("and, or or the end");
+    }
+    return condition;
+}
+
+/**
+ * Check if a condition is valid
+ * @param text Condition text, see {@link parseCondition}
+ * @returns Error message if the condition is invalid, null otherwise
+ */
+export function checkCondition(text: string): string | null {
+    try {
+        parseCondition(text);
+        return null;
+    } catch (e) {
+        return (e as Error).message;
+    }
+}
+
+/**
+ * Compare a single value of a comparison
+ * @returns Comparison result, false if the value cannot be compared as the operand requires
+ */
+function compareValue(condition: Extract<Condition, { kind: "compare" }>, value: TypedValue): boolean {
+    const text = valueText(value);
+    switch (condition.operator) {
+        case "contains":
+            return text.toLowerCase().includes(condition.operand.toLowerCase());
+        case "matches":
+            return (condition.regex as RegExp).test(text);
+        case "equals":
+            return text == condition.operand;
+        case "!=":
+            return text != condition.operand;
+    }
+
+    let order: number;
+    if (condition.number != undefined && value.type != ValueType.Date) {
+        const converted = convertValue(value, [ValueType.Number]);
+        if (converted == null) {
+            return false;
+        }
+        order = (converted.value as number) - condition.number;
+    } else if (condition.date != undefined || value.type == ValueType.Date) {
+        const converted = convertValue(value, [ValueType.Date]);
+        const operandDate = condition.date ?? new Date(condition.operand).getTime();
+        if (converted == null || isNaN(operandDate)) {
+            return false;
+        }
+        order = new Date(converted.value as string).getTime() - operandDate;
+    } else {
+        order = text.localeCompare(condition.operand);
+    }
+    switch (condition.operator) {
+        case "<":
+            return order < 0;
+        case "<=":
+            return order <= 0;
+        case ">":
+            return order > 0;
+        case ">=":
+            return order >= 0;
+    }
+}
+
+/**
+ * Test a value against a condition
+ *
+ * Comparisons of a record field hold if any value of the field satisfies them; Fields that are missing, or values that are not records, never satisfy them.
+ *
+ * @param condition Condition, see {@link parseCondition}
+ * @param value Value to test
+ */
+export function testCondition(condition: Condition, value: TypedValue): boolean {
+    switch (condition.kind) {
+        case "and":
+            return condition.conditions.every((part) => testCondition(part, value));
+        case "or":
+            return condition.conditions.some((part) => testCondition(part, value));
+        case "not":
+            return !testCondition(condition.condition, value);
+        case "compare": {
+            if (condition.field == null) {
+                return compareValue(condition, value);
+            }
+            const fieldValues = value.type == ValueType.Record ? value.value[condition.field] ?? [] : [];
+            return fieldValues.some((fieldValue) => compareValue(condition, fieldValue));
+        }
+    }
+}
\ No newline at end of file
@@ -1,8 +1,7 @@
-import {BaseNode, Handles, NodeProperties} from "@/app/nodes/nodes";
-import React, {useEffect} from "react";
-import {PipeState} from "@/app/feed/pipe";
-
-const DEMO_DOCUMENT = `
+/**
+ * Static HTML document provided by the demo input node; Used for demonstrating pipelines without access to external data sources
+ */
+export const DEMO_DOCUMENT = `
 <!DOCTYPE html>
 <html lang="en">
     <head>
@@ -62,35 +61,4 @@ const DEMO_DOCUMENT = `
         </div>
     </body>
 </html>
-`
-
-/**
- * Datasource node for demo use; Provides the above static HTML document as input.
- * HTMLInputNode is constrained by CORS rules when in client mode.
- *
- * This component is managed by ReactFlow and not directly instantiated itself.
- *
- * @param nodeID This node's ID
- * @param selected True if this node is selected, False otherwise
- * @param pipeValue Current data pipe state of this node
- * @param handles Handles of this node, initialized from {@link DemoInputNode.handles}
- * @param onPipeUpdate Callback for updating pipe state
- * @constructor
- */
-export function DemoInputNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
-    useEffect(() => {
-        if (pipeValue.kind != PipeState.Ok) {
-            onPipeUpdate({fromNode: nodeID, kind: PipeState.Ok, value: input => ({"text-out": [DEMO_DOCUMENT]})})
-        }
-    });
-
-    return (
-        <BaseNode selected={selected} label={"Demo Document Input"} pipeValue={pipeValue} handles={handles}/>
-    );
-}
-
-DemoInputNode.displayName = "Demo Document Input";
-DemoInputNode.handles = {
-    source: [{id: "text-out", label: "HTML"}],
-    target: []
-} as Handles
\ No newline at end of file
+`
\ No newline at end of file
@@ -0,0 +1,160 @@
+import {describe, expect, it} from "vitest";
+import {JSDOM} from "jsdom";
+import {createEvaluationNodes, EvaluationNode, evaluatePipeline, executePipeline, PreviousEvaluation} from "@/app/feed/executor";
+import {MapperEnvironment} from "@/app/feed/mappers";
+import {PipeState} from "@/app/feed/pipe";
+import {parsePipeline} from "@/app/feed/pipeline";
+
+const environment: MapperEnvironment = {
+    dom: new JSDOM().window as unknown as MapperEnvironment["dom"],
+    fetch: async (fromNode) => ({fromNode: fromNode, kind: PipeState.Err, error: "No fetching in tests"})
+};
+
+/**
+ * Node of a saved pipeline, at the origin
+ */
+function node(id: string, type: string, config: object, parent?: string) {
+    return {id, type, position: {x: 0, y: 0}, config, ...parent != undefined ? {parent} : {}};
+}
+
+/**
+ * Edge of a saved pipeline
+ */
+function edge(source: string, sourceHandle: string, target: string, targetHandle: string) {
+    return {source, sourceHandle, target, targetHandle};
+}
+
+const REGEX_CONFIG = {ignorecase: false, multiline: true, dotall: false, unicode: false};
+
+describe("executePipeline", () => {
+    it("evaluates nodes in order, converting values between handles", async () => {
+        const results = await executePipeline(parsePipeline(JSON.stringify({
+            version: 2,
+            nodes: [node("text", "textInputNode", {text: "{\"a\": [1, 2]}"}), node("query", "jsonQueryNode", {query: "a", splitArrays: true})],
+            edges: [edge("text", "text-out", "query", "data-in")]
+        })), environment);
+        expect(results["query"]).toEqual({
+            kind: "output",
+            input: {"data-in": [{type: "text", value: "{\"a\": [1, 2]}"}]},
+            output: {"data-out": [{type: "json", value: "1"}, {type: "json", value: "2"}]}
+        });
+    });
+
+    it("reports missing input, invalid configuration and cycles as errors", async () => {
+        const results = await executePipeline(parsePipeline(JSON.stringify({
+            version: 2,
+            nodes: [
+                node("unconnected", "regexNode", {regex: "a", ...REGEX_CONFIG}),
+                node("unconfigured", "textInputNode", {text: null}),
+                node("a", "regexNode", {regex: "a", ...REGEX_CONFIG}),
+                node("b", "regexNode", {regex: "b", ...REGEX_CONFIG})
+            ],
+            edges: [edge("a", "data-out", "b", "data-in"), edge("b", "data-out", "a", "data-in")]
+        })), environment);
+        expect(results["unconnected"]).toMatchObject({kind: "error", error: "Missing input"});
+        expect(results["unconfigured"]).toMatchObject({kind: "error", error: "Node configuration is invalid"});
+        expect(results["a"]).toMatchObject({kind: "error", error: "Node is part of, or depends on, a cycle"});
+        expect(results["b"]).toMatchObject({kind: "error", error: "Node is part of, or depends on, a cycle"});
+    });
+
+    it("rejects with the signal's reason when cancelled", async () => {
+        const cancel = new AbortController();
+        cancel.abort(new Error("Cancelled"));
+        const pipeline = parsePipeline(JSON.stringify({version: 2, nodes: [node("text", "textInputNode", {text: "a"})], edges: []}));
+        await expect(executePipeline(pipeline, environment, cancel.signal)).rejects.toThrow("Cancelled");
+    });
+});
+
+/**
+ * Pipeline splitting text into lines, and querying each line as JSON within a for-each node
+ */
+function forEachPipeline(lines: string[]): string {
+    return JSON.stringify({
+        version: 2,
+        nodes: [
+            node("text", "textInputNode", {text: lines.join("\n")}),
+            node("lines", "regexNode", {regex: "^.+$", ...REGEX_CONFIG}),
+            node("each", "forEachNode", {width: 480, height: 320}),
+            node("item", "iterationItemNode", {}, "each"),
+            node("query", "jsonQueryNode", {query: "a", splitArrays: true}, "each"),
+            node("result", "iterationResultNode", {}, "each")
+        ],
+        edges: [
+            edge("text", "text-out", "lines", "data-in"),
+            edge("lines", "data-out", "each", "data-in"),
+            edge("item", "item-out", "query", "data-in"),
+            edge("query", "data-out", "result", "result-in")
+        ]
+    });
+}
+
+describe("for-each nodes", () => {
+    it("collect the result of each iteration in order", async () => {
+        const results = await executePipeline(parsePipeline(forEachPipeline(["{\"a\": 1}", "{\"a\": 2}", "{\"a\": 3}"])), environment);
+        const entry = results["each"];
+        expect(entry.kind).toBe("output");
+        expect(entry.kind == "output" && entry.output["data-out"].map((value) => value.value)).toEqual(["1", "2", "3"]);
+        expect(entry.kind == "output" && entry.iterations?.length).toBe(3);
+    });
+
+    it("fail with the iteration whose result depends on a failed node", async () => {
+        const results = await executePipeline(parsePipeline(forEachPipeline(["{\"a\": 1}", "{invalid", "{\"a\": 3}"])), environment);
+        const entry = results["each"];
+        expect(entry.kind).toBe("error");
+        expect(entry.kind == "error" && entry.error).toMatch(/^Iteration 2 failed at node query: /);
+        // Iterations up to the failed one remain available for inspection
+        expect(entry.kind == "error" && entry.iterations?.[1]["query"].kind).toBe("error");
+    });
+});
+
+describe("evaluatePipeline", () => {
+    const pipeline = (firstText: string, secondText: string) => parsePipeline(JSON.stringify({
+        version: 2,
+        nodes: [
+            node("first", "textInputNode", {text: firstText}),
+            node("second", "textInputNode", {text: secondText}),
+            node("firstMatch", "regexNode", {regex: "\\w", ...REGEX_CONFIG}),
+            node("secondMatch", "regexNode", {regex: "\\w", ...REGEX_CONFIG})
+        ],
+        edges: [edge("first", "text-out", "firstMatch", "data-in"), edge("second", "text-out", "secondMatch", "data-in")]
+    }));
+
+    /**
+     * Evaluate nodes, reusing results of an earlier evaluation
+     * @returns Results, and the IDs of the nodes that were evaluated again
+     */
+    async function evaluate(nodes: { [key: string]: EvaluationNode }, previous?: PreviousEvaluation) {
+        let evaluated = [] as string[];
+        const edges = pipeline("", "").edges;
+        const results = await evaluatePipeline(nodes, edges, new AbortController().signal, (nodeID, entry) => {
+            if (entry.kind == "pending") {
+                evaluated.push(nodeID);
+            }
+        }, previous);
+        return {results, evaluated: evaluated.sort()};
+    }
+
+    it("reuses results of unchanged nodes, and evaluates changed nodes and their downstream nodes again", async () => {
+        const before = await createEvaluationNodes(pipeline("a", "b"), environment);
+        const first = await evaluate(before);
+        expect(first.evaluated).toEqual(["first", "firstMatch", "second", "secondMatch"]);
+
+        // Unchanged nodes keep their data pipe, as in the editor
+        const after = {...before, second: (await createEvaluationNodes(pipeline("a", "c"), environment))["second"]};
+        const second = await evaluate(after, {nodes: before, results: first.results});
+        expect(second.evaluated).toEqual(["second", "secondMatch"]);
+        expect(second.results["first"]).toBe(first.results["first"]);
+        expect(second.results["firstMatch"]).toBe(first.results["firstMatch"]);
+        expect(second.results["secondMatch"]).toMatchObject({kind: "output", output: {"data-out": [{type: "text", value: "c"}]}});
+    });
+
+    it("reuses results of downstream nodes whose input is unchanged", async () => {
+        const before = await createEvaluationNodes(pipeline("a", "b"), environment);
+        const first = await evaluate(before);
+
+        const after = {...before, first: (await createEvaluationNodes(pipeline("a", "b"), environment))["first"]};
+        const second = await evaluate(after, {nodes: before, results: first.results});
+        expect(second.evaluated).toEqual(["first"]);
+        expect(second.results["firstMatch"]).toBe(first.results["firstMatch"]);
+    });
+});
\ No newline at end of file
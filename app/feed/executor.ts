@@ -0,0 +1,545 @@
+// Pipeline evaluation, shared between the editor and headless execution
+
+import {Handles, MapperError, messageToPipeValue, PipeData, PipeState, PipeValue} from "@/app/feed/pipe";
+import {convertValue, TypedValue, valuesEqual} from "@/app/feed/values";
+import {PipelineDocument} from "@/app/feed/pipeline";
+import {MapperDefinition, MapperEnvironment, mapperHandles} from "@/app/feed/mappers";
+import {createNodeMapper, nodeDefinition} from "@/app/feed/registry";
+import "@/app/plugins";
+
+/**
+ * Evaluation result of a single node
+ */
+export type CacheEntry = OutputCacheEntry | ErrorCacheEntry | PendingCacheEntry;
+
+export type OutputCacheEntry = {
+    kind: "output",
+    input: PipeData,
+    output: PipeData,
+    /**
+     * For for-each nodes, the results of the nodes it contains for each iteration, see {@link FOR_EACH_NODE}
+     */
+    iterations?: { [key: string]: CacheEntry }[]
+}
+
+export type ErrorCacheEntry = {
+    kind: "error",
+    input: PipeData,
+    error: string,
+    /**
+     * For for-each nodes that failed in an iteration, the results of the nodes it contains up to and including the failed iteration
+     */
+    iterations?: { [key: string]: CacheEntry }[]
+}
+
+/**
+ * Node is still being evaluated, or its pipe (or that of an upstream node) is still loading
+ */
+export type PendingCacheEntry = {
+    kind: "pending",
+    input: PipeData
+}
+
+/**
+ * Edge between nodes; Accepts both saved pipeline edges and editor edges
+ */
+export type GraphEdge = { source: string, sourceHandle?: string | null, target: string, targetHandle?: string | null };
+
+/**
+ * Collect the input data of a node from the outputs of its upstream nodes
+ *
+ * Multiple edges into the same handle have their data appended, in edge order.
+ *
+ * @param nodeID Node to collect input data for
+ * @param edges All edges of the pipeline
+ * @param loadOutput Function that provides the evaluation result of an upstream node
+ */
+export function collectInput(
+    nodeID: string,
+    edges: GraphEdge[],
+    loadOutput: (nodeID: string) => CacheEntry
+): PipeData {
+    let inputData = {} as PipeData;
+    for (let edge of edges) {
+        if (edge.target == nodeID) {
+            const upstream = loadOutput(edge.source);
+            const handleInput = upstream.kind == "output" ? upstream.output[edge.sourceHandle as string] : undefined;
+            if (handleInput != undefined) {
+                // Multiple inputs get appended
+                if (inputData[edge.targetHandle as string]) {
+                    inputData[edge.targetHandle as string].push(...handleInput);
+                } else {
+                    inputData[edge.targetHandle as string] = [...handleInput];
+                }
+            }
+        }
+    }
+    return inputData;
+}
+
+/**
+ * Default time budget of a node's evaluation in milliseconds, see {@link MapperDefinition.timeBudget}
+ */
+export const DEFAULT_TIME_BUDGET = 10000;
+
+/**
+ * Evaluate a single node's data pipe over its input data
+ *
+ * Input values are converted to the types accepted by each input handle. Errors in the node's mapper are caught and reported as an error entry.
+ * Asynchronous mappers that do not finish within the time budget are aborted through their signal, and reported as an error entry;
+ * Synchronous mappers always run to completion, as they return before the budget can be checked.
+ *
+ * @param nodeID ID of the node, for error reporting
+ * @param pipeValue Current data pipe state of the node
+ * @param handles Handles of the node; Required input handles and all output handles are checked
+ * @param inputData Input data of the node, see {@link collectInput}
+ * @param signal Signal passed on to asynchronous mappers, aborted when the result is no longer needed
+ * @param timeBudget Maximum time in milliseconds for the mapper to finish (Default: {@link DEFAULT_TIME_BUDGET})
+ */
+export async function evaluateNode(
+    nodeID: string,
+    pipeValue: PipeValue,
+    handles: Handles,
+    inputData: PipeData,
+    signal: AbortSignal,
+    timeBudget: number = DEFAULT_TIME_BUDGET
+): Promise<CacheEntry> {
+    switch (pipeValue.kind) {
+        case PipeState.BadConfig:
+            return {
+                kind: "error",
+                input: inputData,
+                error: "Node configuration is invalid"
+            };
+        case PipeState.Err:
+            return {
+                kind: "error",
+                input: inputData,
+                error: pipeValue.error
+            };
+        case PipeState.Pending:
+            return {
+                kind: "pending",
+                input: inputData
+            };
+        case PipeState.Ok:
+            for (let handle of handles.target) {
+                if ((!handle.optional) && (inputData[handle.id] == undefined || inputData[handle.id].length == 0)) {
+                    return {
+                        kind: "error",
+                        input: inputData,
+                        error: "Missing input"
+                    };
+                }
+            }
+            let mapperInput = {} as PipeData;
+            for (let handle of handles.target) {
+                if (inputData[handle.id] != undefined) {
+                    const converted = inputData[handle.id].map((value) => convertValue(value, handle.types));
+                    const failed = converted.findIndex((value) => value == null);
+                    if (failed != -1) {
+                        return {
+                            kind: "error",
+                            input: inputData,
+                            error: "Value " + (failed + 1) + " on input " + handle.label + " is " + inputData[handle.id][failed].type + ", which cannot be converted to " + handle.types?.join(" or ")
+                        };
+                    }
+                    mapperInput[handle.id] = converted as TypedValue[];
+                }
+            }
+            // The mapper gets its own signal, so that it can be stopped when it exceeds its time budget; A synchronous mapper has returned before the timer can fire
+            const mapperRun = new AbortController();
+            const abortMapper = () => mapperRun.abort(signal.reason);
+            signal.addEventListener("abort", abortMapper);
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            try {
+                const timeout = new Promise<never>((_resolve, reject) => {
+                    timer = setTimeout(() => {
+                        const error = new MapperError("Timed out after " + timeBudget + " ms");
+                        mapperRun.abort(error);
+                        reject(error);
+                    }, timeBudget);
+                });
+                const mapped = Promise.resolve(pipeValue.mapper(mapperInput, mapperRun.signal));
+                // Once timed out, the mapper's own rejection is of no interest
+                mapped.catch(() => undefined);
+                const outputData = await Promise.race([mapped, timeout]);
+                for (let handle of handles.source) {
+                    if (outputData[handle.id] == undefined) {
+                        // Missing output is a fault in the implementation of Node
+                        // noinspection ExceptionCaughtLocallyJS; We have to catch any errors originating from the node's data mapper anyway
+                        throw new Error("Missing output data for node " + nodeID + " handle " + handle.id);
+                    }
+                }
+                return {
+                    kind: "output",
+                    input: inputData,
+                    output: outputData
+                };
+            } catch (e) {
+                if (signal.aborted) {
+                    throw signal.reason;
+                }
+                if (e instanceof MapperError) {
+                    return {
+                        kind: "error",
+                        input: inputData,
+                        error: e.message
+                    };
+                }
+                console.log("ERR in node implementation: ", e);
+                return {
+                    kind: "error",
+                    input: inputData,
+                    error: "Error in node implementation"
+                };
+            } finally {
+                clearTimeout(timer);
+                signal.removeEventListener("abort", abortMapper);
+            }
+    }
+}
+
+/**
+ * Order nodes such that each node comes after all nodes it receives input from
+ *
+ * @param nodeIDs IDs of all nodes
+ * @param edges All edges between the nodes
+ * @returns Tuple of the ordered node IDs, and the IDs of nodes that could not be ordered because they are part of or downstream of a cycle
+ */
+export function topologicalOrder(nodeIDs: string[], edges: GraphEdge[]): [string[], string[]] {
+    let inDegree = Object.fromEntries(nodeIDs.map((nodeID) => [nodeID, 0])) as { [key: string]: number };
+    for (let edge of edges) {
+        inDegree[edge.target] += 1;
+    }
+
+    let queue = nodeIDs.filter((nodeID) => inDegree[nodeID] == 0);
+    let ordered = [] as string[];
+    while (queue.length > 0) {
+        const nodeID = queue.shift() as string;
+        ordered.push(nodeID);
+        for (let edge of edges) {
+            if (edge.source == nodeID) {
+                inDegree[edge.target] -= 1;
+                if (inDegree[edge.target] == 0) {
+                    queue.push(edge.target);
+                }
+            }
+        }
+    }
+
+    return [ordered, nodeIDs.filter((nodeID) => inDegree[nodeID] > 0)];
+}
+
+/**
+ * Node types with special meaning during evaluation
+ *
+ * For-each nodes contain other nodes, which are evaluated once per input value of the for-each node. Within a for-each node,
+ * the item node outputs the current input value, and the input of the result node is collected as output of the for-each node.
+ */
+export const FOR_EACH_NODE = "forEachNode";
+export const ITERATION_ITEM_NODE = "iterationItemNode";
+export const ITERATION_RESULT_NODE = "iterationResultNode";
+
+/**
+ * Node as evaluated by {@link evaluatePipeline}
+ */
+export type EvaluationNode = {
+    type: string,
+    pipeValue: PipeValue,
+    handles: Handles,
+    /**
+     * ID of the for-each node containing this node, absent for top-level nodes
+     */
+    parent?: string
+};
+
+/**
+ * Earlier evaluation of a pipeline, whose results are reused where they still apply, see {@link evaluatePipeline}
+ */
+export type PreviousEvaluation = {
+    /**
+     * Nodes as they were evaluated
+     */
+    nodes: { [key: string]: EvaluationNode },
+    /**
+     * Evaluation result for each top-level node, as returned by {@link evaluatePipeline}
+     */
+    results: { [key: string]: CacheEntry }
+};
+
+/**
+ * Check if two sets of pipe data are equal
+ */
+function pipeDataEqual(a: PipeData, b: PipeData): boolean {
+    const handles = Object.keys(a);
+    return handles.length == Object.keys(b).length && handles.every((handle) => b[handle] != undefined && valuesEqual(a[handle], b[handle]));
+}
+
+/**
+ * Look up the earlier result of a node, if it still applies
+ *
+ * A result applies if the node has the same data pipe and handles as when it was evaluated (i.e. its configuration is unchanged), and it receives the same input data.
+ * Changes therefore only cause the changed nodes to be evaluated again, along with the downstream nodes whose input actually changes.
+ *
+ * @param nodeID ID of the node
+ * @param node Node as it is evaluated now
+ * @param inputData Input data of the node
+ * @param previous Earlier evaluation of the node's scope
+ * @returns Earlier result, or undefined if the node must be evaluated again
+ */
+function previousResult(nodeID: string, node: EvaluationNode, inputData: PipeData, previous?: PreviousEvaluation): CacheEntry | undefined {
+    const previousNode = previous?.nodes[nodeID];
+    const entry = previous?.results[nodeID];
+    if (
+        previousNode == undefined || entry == undefined || entry.kind == "pending"
+        || previousNode.type != node.type || previousNode.pipeValue !== node.pipeValue || previousNode.handles !== node.handles
+    ) {
+        return undefined;
+    }
+    return pipeDataEqual(entry.input, inputData) ? entry : undefined;
+}
+
+/**
+ * Evaluate all nodes of a pipeline
+ *
+ * Each node is evaluated once all nodes it receives input from have been evaluated, nodes that do not depend on each other are evaluated concurrently.
+ * Nodes that are part of, or downstream of, a cycle are reported as an error.
+ *
+ * Only results of top-level nodes are returned; Results of nodes within a for-each node are part of the for-each node's result, see {@link OutputCacheEntry.iterations}
+ *
+ * @param nodes Nodes of the pipeline, keyed by node ID
+ * @param edges All edges between the nodes; Edges between nodes with different parents are ignored
+ * @param signal Signal to cancel evaluation, e.g. when the pipeline has changed; Evaluation then rejects with the signal's reason
+ * @param onResult Optional callback, invoked as soon as each node's result is available; Nodes that are evaluated again are first reported as pending
+ * @param previous Optional earlier evaluation of this pipeline, whose results are reused for unchanged nodes with unchanged input
+ * @returns Evaluation result for each top-level node, keyed by node ID
+ */
+export function evaluatePipeline(
+    nodes: { [key: string]: EvaluationNode },
+    edges: GraphEdge[],
+    signal: AbortSignal,
+    onResult?: (nodeID: string, entry: CacheEntry) => void,
+    previous?: PreviousEvaluation
+): Promise<{ [key: string]: CacheEntry }> {
+    return evaluateScope(nodes, edges, undefined, {}, signal, onResult, previous);
+}
+
+/**
+ * Evaluate the nodes that share a parent
+ * @param nodes Nodes of the pipeline, keyed by node ID
+ * @param edges All edges between the nodes
+ * @param parent Parent of the nodes to evaluate, undefined for top-level nodes
+ * @param presetResults Results for nodes that are not to be evaluated, such as the item node of a for-each iteration
+ * @param signal See {@link evaluatePipeline}
+ * @param onResult See {@link evaluatePipeline}
+ * @param previous Earlier evaluation of this scope, see {@link evaluatePipeline}
+ */
+async function evaluateScope(
+    nodes: { [key: string]: EvaluationNode },
+    edges: GraphEdge[],
+    parent: string | undefined,
+    presetResults: { [key: string]: CacheEntry },
+    signal: AbortSignal,
+    onResult?: (nodeID: string, entry: CacheEntry) => void,
+    previous?: PreviousEvaluation
+): Promise<{ [key: string]: CacheEntry }> {
+    let results = {} as { [key: string]: CacheEntry };
+    const scopeNodeIDs = Object.keys(nodes).filter((nodeID) => nodes[nodeID].parent == parent);
+    const scopeEdges = edges.filter((edge) => nodes[edge.source]?.parent == parent && nodes[edge.target]?.parent == parent);
+    const [ordered, cyclic] = topologicalOrder(scopeNodeIDs, scopeEdges);
+
+    for (let nodeID of cyclic) {
+        results[nodeID] = {
+            kind: "error",
+            input: {},
+            error: "Node is part of, or depends on, a cycle"
+        };
+        onResult?.(nodeID, results[nodeID]);
+    }
+
+    // Upstream nodes come first in topological order, so their evaluation has always been started
+    let evaluations = {} as { [key: string]: Promise<void> };
+    for (let nodeID of ordered) {
+        const upstream = scopeEdges.filter((edge) => edge.target == nodeID).map((edge) => evaluations[edge.source]);
+        evaluations[nodeID] = Promise.all(upstream).then(async () => {
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+            const inputData = collectInput(nodeID, scopeEdges, (sourceID) => results[sourceID]);
+            // For-each nodes are always evaluated again, as the nodes they contain may have changed; Their iterations reuse results instead
+            const isForEach = nodes[nodeID].type == FOR_EACH_NODE && nodes[nodeID].pipeValue.kind == PipeState.Ok;
+            const reused = isForEach ? undefined : previousResult(nodeID, nodes[nodeID], inputData, previous);
+            let entry: CacheEntry;
+            if (presetResults[nodeID] != undefined) {
+                entry = presetResults[nodeID];
+            } else if (scopeEdges.some((edge) => edge.target == nodeID && results[edge.source].kind == "pending")) {
+                // Nodes downstream of a node that is still loading its pipe are pending as well
+                entry = {kind: "pending", input: inputData};
+            } else if (reused != undefined) {
+                entry = reused;
+            } else {
+                onResult?.(nodeID, {kind: "pending", input: inputData});
+                if (isForEach) {
+                    entry = await evaluateForEach(nodeID, nodes, edges, inputData, signal, previous);
+                } else {
+                    entry = await evaluateNode(nodeID, nodes[nodeID].pipeValue, nodes[nodeID].handles, inputData, signal, nodeDefinition(nodes[nodeID].type)?.timeBudget);
+                }
+            }
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+            results[nodeID] = entry;
+            onResult?.(nodeID, entry);
+        });
+    }
+    await Promise.all(Object.values(evaluations));
+
+    return results;
+}
+
+/**
+ * Evaluate a for-each node, evaluating the nodes it contains once for each of its input values
+ *
+ * Iterations are evaluated one after another, so that nodes which fetch data do not fetch for all iterations at once.
+ * If a node the Result node depends on fails in an iteration, the for-each node fails as well, as its output would otherwise silently lack that iteration's values.
+ *
+ * @param nodeID ID of the for-each node
+ * @param nodes Nodes of the pipeline, keyed by node ID
+ * @param edges All edges between the nodes
+ * @param inputData Input data of the for-each node
+ * @param signal See {@link evaluatePipeline}
+ * @param previous Earlier evaluation of the scope containing the for-each node; Each iteration reuses the results of the same iteration of the earlier evaluation
+ */
+async function evaluateForEach(
+    nodeID: string,
+    nodes: { [key: string]: EvaluationNode },
+    edges: GraphEdge[],
+    inputData: PipeData,
+    signal: AbortSignal,
+    previous?: PreviousEvaluation
+): Promise<CacheEntry> {
+    const items = inputData["data-in"];
+    if (items == undefined || items.length == 0) {
+        return {
+            kind: "error",
+            input: inputData,
+            error: "Missing input"
+        };
+    }
+
+    const children = Object.keys(nodes).filter((childID) => nodes[childID].parent == nodeID);
+    const itemNodes = children.filter((childID) => nodes[childID].type == ITERATION_ITEM_NODE);
+    const resultNodes = children.filter((childID) => nodes[childID].type == ITERATION_RESULT_NODE);
+    if (itemNodes.length != 1 || resultNodes.length != 1) {
+        return {
+            kind: "error",
+            input: inputData,
+            error: "For each node must contain exactly one Item node and one Result node"
+        };
+    }
+    const [itemNode] = itemNodes;
+    const [resultNode] = resultNodes;
+
+    // Nodes whose failure means the Result node lacks input
+    const scopeEdges = edges.filter((edge) => nodes[edge.source]?.parent == nodeID && nodes[edge.target]?.parent == nodeID);
+    let upstream = [resultNode];
+    for (let index = 0; index < upstream.length; index++) {
+        for (let edge of scopeEdges) {
+            if (edge.target == upstream[index] && !upstream.includes(edge.source)) {
+                upstream.push(edge.source);
+            }
+        }
+    }
+
+    const previousEntry = previous?.results[nodeID];
+    const previousIterations = previousEntry != undefined && previousEntry.kind != "pending" ? previousEntry.iterations ?? [] : [];
+
+    let output = [] as TypedValue[];
+    let iterations = [] as { [key: string]: CacheEntry }[];
+    for (let [index, item] of items.entries()) {
+        const iteration = await evaluateScope(
+            nodes,
+            edges,
+            nodeID,
+            {[itemNode]: {kind: "output", input: {}, output: {"item-out": [item]}}},
+            signal,
+            undefined,
+            index < previousIterations.length ? {nodes: (previous as PreviousEvaluation).nodes, results: previousIterations[index]} : undefined
+        );
+        iterations.push(iteration);
+
+        const result = iteration[resultNode];
+        if (result.kind == "pending") {
+            return {
+                kind: "pending",
+                input: inputData
+            };
+        }
+        const failed = upstream.find((upstreamID) => iteration[upstreamID]?.kind == "error");
+        if (failed != undefined) {
+            return {
+                kind: "error",
+                input: inputData,
+                error: "Iteration " + (index + 1) + " failed at node " + failed + ": " + (iteration[failed] as ErrorCacheEntry).error,
+                iterations: iterations
+            };
+        }
+        output.push(...(result.input["result-in"] ?? []));
+    }
+
+    return {
+        kind: "output",
+        input: inputData,
+        output: {"data-out": output},
+        iterations: iterations
+    };
+}
+
+/**
+ * Create the data pipes of the nodes of a saved pipeline from their configuration
+ * @param pipeline Pipeline, as obtained from {@link parsePipeline}
+ * @param environment See {@link executePipeline}
+ * @returns Nodes ready for evaluation by {@link evaluatePipeline}, keyed by node ID
+ */
+export async function createEvaluationNodes(pipeline: PipelineDocument, environment: MapperEnvironment): Promise<{ [key: string]: EvaluationNode }> {
+    let nodes = {} as { [key: string]: EvaluationNode };
+
+    // Data pipes are created concurrently, as source nodes may have to fetch their data
+    await Promise.all(pipeline.nodes.map(async (node) => {
+        const definition = nodeDefinition(node.type);
+        if (definition == undefined) {
+            nodes[node.id] = {
+                type: node.type,
+                pipeValue: {kind: PipeState.Err, error: "Unknown node type: " + node.type},
+                handles: {source: [], target: []},
+                parent: node.parent
+            };
+            return;
+        }
+
+        const config = {...definition.defaultConfig, ...node.config};
+        const message = await createNodeMapper(definition, node.id, config, environment);
+        nodes[node.id] = {type: node.type, pipeValue: messageToPipeValue(message), handles: mapperHandles(definition, config), parent: node.parent};
+    }));
+
+    return nodes;
+}
+
+/**
+ * Execute a saved pipeline without the editor
+ *
+ * Each node's data pipe is rebuilt from its saved configuration, after which the pipeline is evaluated, see {@link evaluatePipeline}.
+ *
+ * @param pipeline Pipeline to execute, as obtained from {@link parsePipeline}
+ * @param environment Environment-specific functionality; Outside the browser use {@link server_fetch} as fetch function, and a DOM implementation such as jsdom
+ * @param signal Optional signal to cancel execution
+ * @returns Evaluation result for each node, keyed by node ID
+ */
+export async function executePipeline(
+    pipeline: PipelineDocument,
+    environment: MapperEnvironment,
+    signal: AbortSignal = new AbortController().signal
+): Promise<{ [key: string]: CacheEntry }> {
+    return evaluatePipeline(await createEvaluationNodes(pipeline, environment), pipeline.edges, signal);
+}
\ No newline at end of file
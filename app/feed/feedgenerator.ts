@@ -2,9 +2,11 @@
  * Utility to build XML documents
  *
  * Returns a tuple of the newly created XMLDocument, and a function to create elements (See {@link createElement})
+ *
+ * @param implementation DOM implementation used to create the document (Default: the global document's implementation)
  */
-export function newDocument(): [XMLDocument, (name: string, children?: Element[], attributes?: {[key: string]: string}, text?: string) => Element] {
-    let xmlDocument = document.implementation.createDocument(null, null);
+export function newDocument(implementation: DOMImplementation = document.implementation): [XMLDocument, (name: string, children?: Element[], attributes?: {[key: string]: string}, text?: string) => Element] {
+    let xmlDocument = implementation.createDocument(null, null);
 
     /**
      * Creates a new element within the parent document
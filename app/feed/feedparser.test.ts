@@ -0,0 +1,75 @@
+import {describe, expect, it} from "vitest";
+import {JSDOM} from "jsdom";
+import {parseFeed} from "@/app/feed/feedparser";
+import {MapperDOM} from "@/app/feed/mappers";
+import {MapperError} from "@/app/feed/pipe";
+
+const dom = new JSDOM().window as unknown as MapperDOM;
+
+describe("parseFeed", () => {
+    it("parses RSS, preferring content:encoded and resolving relative links", () => {
+        const feed = parseFeed(`<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+            <channel><title>Feed</title><link>/</link><description>About</description>
+            <item><title>A</title><link>/a</link><description>Summary</description><content:encoded><![CDATA[<p>Full</p>]]></content:encoded>
+                <dc:creator>Jane</dc:creator><pubDate>Fri, 01 Mar 2024 10:00:00 GMT</pubDate><guid>a-1</guid></item>
+            <item><title>B</title></item>
+            </channel></rss>`, "https://example.com/feed.xml", dom);
+        expect(feed).toEqual({
+            format: "RSS",
+            title: "Feed",
+            link: "https://example.com/",
+            description: "About",
+            items: [
+                {title: "A", link: "https://example.com/a", description: "<p>Full</p>", author: "Jane", date: "2024-03-01T10:00:00.000Z", guid: "a-1"},
+                {title: "B", link: undefined, description: undefined, author: undefined, date: undefined, guid: undefined}
+            ]
+        });
+    });
+
+    it("parses RSS 1.0, whose items are siblings of the channel", () => {
+        const feed = parseFeed(`<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/">
+            <channel><title>Feed</title></channel><item><title>A</title></item></rdf:RDF>`, "https://example.com/", dom);
+        expect(feed.items.map((item) => item.title)).toEqual(["A"]);
+    });
+
+    it("parses Atom, using the alternate link and the published date", () => {
+        const feed = parseFeed(`<feed xmlns="http://www.w3.org/2005/Atom"><title>Feed</title><subtitle>About</subtitle>
+            <link rel="self" href="/feed.atom"/><link href="/"/>
+            <entry><id>urn:a</id><title>A</title><link rel="enclosure" href="/a.mp3"/><link rel="alternate" href="/a"/><summary>Summary</summary>
+                <author><name>Jane</name></author><updated>2024-03-02T00:00:00Z</updated><published>2024-03-01T00:00:00+02:00</published></entry>
+            </feed>`, "https://example.com/feed.atom", dom);
+        expect(feed).toEqual({
+            format: "Atom",
+            title: "Feed",
+            link: "https://example.com/",
+            description: "About",
+            items: [{title: "A", link: "https://example.com/a", description: "Summary", author: "Jane", date: "2024-02-29T22:00:00.000Z", guid: "urn:a"}]
+        });
+    });
+
+    it("parses JSON Feed 1.0 and 1.1 authors and numeric IDs", () => {
+        const feed = parseFeed(JSON.stringify({
+            version: "https://jsonfeed.org/version/1.1",
+            title: "Feed",
+            home_page_url: "https://example.com/",
+            items: [
+                {id: 1, url: "/a", content_text: "A", author: {name: "Jane"}, date_published: "not a date"},
+                {id: "b", content_html: "<p>B</p>", authors: [{name: "Joe"}], date_modified: "2024-03-01T10:00:00Z"}
+            ]
+        }), "https://example.com/feed.json", dom);
+        expect(feed.items).toEqual([
+            {title: undefined, link: "https://example.com/a", description: "A", author: "Jane", date: undefined, guid: "1"},
+            {title: undefined, link: undefined, description: "<p>B</p>", author: "Joe", date: "2024-03-01T10:00:00.000Z", guid: "b"}
+        ]);
+    });
+
+    it.each([
+        ["invalid JSON", "{\"items\": ", "Feed is not valid JSON"],
+        ["JSON without items", "{\"title\": \"Feed\"}", "JSON Feed has no items"],
+        ["malformed XML", "<rss><channel>", "neither JSON nor XML"],
+        ["other XML documents", "<html><body/></html>", "Unknown root element html"]
+    ])("rejects %s", (_case, text, message) => {
+        expect(() => parseFeed(text, "https://example.com/", dom)).toThrow(MapperError);
+        expect(() => parseFeed(text, "https://example.com/", dom)).toThrow(message);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,210 @@
+// Parsing of existing feeds, normalizing RSS, Atom and JSON Feed to the fields of the feed output node
+
+import {MapperError} from "@/app/feed/pipe";
+import type {MapperDOM} from "@/app/feed/mappers";
+
+/**
+ * Item of a parsed feed; Fields absent from the feed are undefined
+ */
+export type ParsedFeedItem = {
+    title?: string,
+    link?: string,
+    /**
+     * Summary or content of the item, as HTML
+     */
+    description?: string,
+    author?: string,
+    /**
+     * Publication date, as ISO 8601 string in UTC, see {@link ValueType.Date}
+     */
+    date?: string,
+    /**
+     * Unique identifier, RSS guid or Atom/JSON Feed id
+     */
+    guid?: string
+};
+
+/**
+ * Feed parsed by {@link parseFeed}
+ */
+export type ParsedFeed = {
+    format: "RSS" | "Atom" | "JSON Feed",
+    title?: string,
+    link?: string,
+    description?: string,
+    items: ParsedFeedItem[]
+};
+
+/**
+ * Resolve a possibly relative URL against the feed's URL
+ * @returns Absolute URL, or undefined if there is no valid URL
+ */
+function absoluteURL(url: string | undefined, baseURL: string): string | undefined {
+    if (url == undefined || url.trim().length == 0) {
+        return undefined;
+    }
+    try {
+        return new URL(url.trim(), baseURL).href;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Normalize a date to an ISO 8601 string; Both RFC 822 and RFC 3339 dates are understood by Date
+ * @returns Normalized date, or undefined if there is no valid date
+ */
+function isoDate(date: string | undefined): string | undefined {
+    if (date == undefined) {
+        return undefined;
+    }
+    const parsed = new Date(date.trim());
+    return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+/**
+ * Child elements of an element with a local name, regardless of namespace
+ */
+function childElements(element: Element, name: string): Element[] {
+    return Array.from(element.children).filter((child) => child.localName == name);
+}
+
+/**
+ * Trimmed text of the first child element with one of the local names, in order of preference; Undefined if there is no such element
+ */
+function childText(element: Element, ...names: string[]): string | undefined {
+    for (let name of names) {
+        const text = childElements(element, name)[0]?.textContent?.trim();
+        if (text != undefined && text.length > 0) {
+            return text;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse an RSS 2.0 (or RSS 0.9x/1.0) document; RSS 1.0 items are siblings of the channel instead of its children
+ */
+function parseRSS(root: Element, baseURL: string): ParsedFeed {
+    const channel = childElements(root, "channel")[0];
+    const items = [...(channel != undefined ? childElements(channel, "item") : []), ...childElements(root, "item")];
+    return {
+        format: "RSS",
+        title: channel != undefined ? childText(channel, "title") : undefined,
+        link: channel != undefined ? absoluteURL(childText(channel, "link"), baseURL) : undefined,
+        description: channel != undefined ? childText(channel, "description") : undefined,
+        items: items.map((item) => ({
+            title: childText(item, "title"),
+            link: absoluteURL(childText(item, "link"), baseURL),
+            // content:encoded holds the full content, description may be a summary
+            description: childText(item, "encoded", "description"),
+            // dc:creator is common, as author must be an email address
+            author: childText(item, "author", "creator"),
+            date: isoDate(childText(item, "pubDate", "date")),
+            guid: childText(item, "guid")
+        }))
+    };
+}
+
+/**
+ * Link of an Atom feed or entry to its website, the alternate link
+ */
+function atomLink(element: Element, baseURL: string): string | undefined {
+    const link = childElements(element, "link").find((link) => (link.getAttribute("rel") ?? "alternate") == "alternate");
+    return absoluteURL(link?.getAttribute("href") ?? undefined, baseURL);
+}
+
+/**
+ * Parse an Atom document
+ */
+function parseAtom(root: Element, baseURL: string): ParsedFeed {
+    return {
+        format: "Atom",
+        title: childText(root, "title"),
+        link: atomLink(root, baseURL),
+        description: childText(root, "subtitle"),
+        items: childElements(root, "entry").map((entry) => {
+            const author = childElements(entry, "author")[0];
+            return {
+                title: childText(entry, "title"),
+                link: atomLink(entry, baseURL),
+                description: childText(entry, "content", "summary"),
+                author: author != undefined ? childText(author, "name", "email") : undefined,
+                date: isoDate(childText(entry, "published", "updated")),
+                guid: childText(entry, "id")
+            };
+        })
+    };
+}
+
+/**
+ * Text of a JSON Feed field, if it is a non-empty string
+ */
+function jsonText(value: unknown): string | undefined {
+    return typeof value == "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+/**
+ * Parse a JSON Feed (1.0 or 1.1) document
+ */
+function parseJSONFeed(feed: { [key: string]: unknown }, baseURL: string): ParsedFeed {
+    if (!Array.isArray(feed.items)) {
+        throw new MapperError("JSON Feed has no items");
+    }
+    return {
+        format: "JSON Feed",
+        title: jsonText(feed.title),
+        link: absoluteURL(jsonText(feed.home_page_url), baseURL),
+        description: jsonText(feed.description),
+        items: (feed.items as { [key: string]: unknown }[]).map((item) => {
+            // JSON Feed 1.1 has a list of authors, 1.0 a single author
+            const authors = Array.isArray(item.authors) ? item.authors : item.author != undefined ? [item.author] : [];
+            return {
+                title: jsonText(item.title),
+                link: absoluteURL(jsonText(item.url), baseURL),
+                description: jsonText(item.content_html) ?? jsonText(item.content_text) ?? jsonText(item.summary),
+                author: jsonText(authors[0]?.name),
+                date: isoDate(jsonText(item.date_published) ?? jsonText(item.date_modified)),
+                // IDs may be numbers in JSON Feed 1.0
+                guid: item.id != undefined ? String(item.id) : undefined
+            };
+        })
+    };
+}
+
+/**
+ * Parse a feed, detecting whether it is RSS, Atom or JSON Feed
+ *
+ * Relative links are resolved against the feed's URL, and dates are normalized to ISO 8601.
+ *
+ * @param feedText Feed document
+ * @param baseURL URL the feed was retrieved from
+ * @param dom DOM implementation to parse XML feeds with
+ * @throws MapperError if the document is not a feed
+ */
+export function parseFeed(feedText: string, baseURL: string, dom: Pick<MapperDOM, "DOMParser">): ParsedFeed {
+    if (feedText.trimStart().startsWith("{")) {
+        let feed;
+        try {
+            feed = JSON.parse(feedText);
+        } catch (e) {
+            throw new MapperError("Feed is not valid JSON");
+        }
+        return parseJSONFeed(feed, baseURL);
+    }
+
+    const feedDocument = new dom.DOMParser().parseFromString(feedText, "application/xml");
+    const root = feedDocument.documentElement;
+    if (root == null || feedDocument.getElementsByTagName("parsererror").length > 0) {
+        throw new MapperError("Not a feed; The document is neither JSON nor XML");
+    }
+    switch (root.localName) {
+        case "rss":
+        case "RDF":
+            return parseRSS(root, baseURL);
+        case "feed":
+            return parseAtom(root, baseURL);
+        default:
+            throw new MapperError("Not a feed; Unknown root element " + root.localName);
+    }
+}
\ No newline at end of file
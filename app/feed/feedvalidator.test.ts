@@ -0,0 +1,94 @@
+import {describe, expect, it} from "vitest";
+import {JSDOM} from "jsdom";
+import {feedFindingText, validateFeed} from "@/app/feed/feedvalidator";
+import {FeedType, MapperDOM, MapperEnvironment} from "@/app/feed/mappers";
+import {PipeMapper, PipeState} from "@/app/feed/pipe";
+import {nodeDefinition} from "@/app/feed/registry";
+import {typedValues, ValueType} from "@/app/feed/values";
+
+const dom = new JSDOM().window as unknown as MapperDOM;
+
+/**
+ * Error findings of a feed, as text
+ */
+function errors(feedText: string): string[] {
+    return validateFeed(feedText, dom).filter((finding) => finding.severity == "error").map(feedFindingText);
+}
+
+describe("validateFeed", () => {
+    it("accepts a valid RSS feed", () => {
+        expect(validateFeed(`<rss version="2.0"><channel><title>T</title><link>https://example.com/</link><description>D</description>
+            <item><title>A</title><link>https://example.com/a</link><guid>https://example.com/a</guid><pubDate>Fri, 01 Mar 2024 10:00:00 GMT</pubDate></item>
+            </channel></rss>`, dom)).toEqual([]);
+    });
+
+    it("reports RSS violations per item", () => {
+        expect(errors(`<rss><channel><title>T</title><link>/relative</link>
+            <item><link>https://example.com/a</link><pubDate>2024-03-01</pubDate><enclosure url="https://example.com/a.mp3"/></item>
+            </channel></rss>`)).toEqual([
+            "rss element must have version 2.0",
+            "Channel is missing its description",
+            "Channel link is not an absolute URL",
+            "Item 1: Item must have a title or a description",
+            "Item 1: Publication date \"2024-03-01\" is not an RFC 822 date",
+            "Item 1: Enclosure is missing its length attribute",
+            "Item 1: Enclosure is missing its type attribute"
+        ]);
+    });
+
+    it("reports Atom violations, including lang attributes and typed person names", () => {
+        expect(errors(`<feed xmlns="http://www.w3.org/2005/Atom" lang="en"><id>https://example.com/</id><title>T</title><updated>yesterday</updated>
+            <entry><id>a</id><title>A</title><updated>2024-03-01T10:00:00Z</updated><author><name type="text">Jane</name></author></entry>
+            </feed>`)).toEqual([
+            "Feed update date \"yesterday\" is not an RFC 3339 date",
+            "feed has a lang attribute, which Atom ignores; Use xml:lang",
+            "Item 1: id \"a\" is not an IRI",
+            "Item 1: Entry must have content or a link",
+            "Item 1: author name must not have a type attribute"
+        ]);
+    });
+
+    it("reports JSON Feed violations and duplicate IDs", () => {
+        const feed = {version: "https://jsonfeed.org/version/1.1", title: "T", items: [{id: "1", content_text: "A"}, {id: "1", url: "/b", content_html: "B"}]};
+        expect(validateFeed(JSON.stringify(feed), dom).map(feedFindingText)).toEqual([
+            "Item 2: url is not an absolute URL",
+            "Item 2: id is the same as that of item 1"
+        ]);
+    });
+
+    it("reports JSON Feed items that are not objects", () => {
+        const feed = {version: "https://jsonfeed.org/version/1.1", title: "T", items: [null, "a", {id: "1", content_text: "A"}]};
+        expect(errors(JSON.stringify(feed))).toEqual([
+            "Item 1: Item is not a JSON object",
+            "Item 2: Item is not a JSON object"
+        ]);
+    });
+
+    it("reports documents that are not feeds", () => {
+        expect(errors("{")).toEqual(["Feed is not valid JSON"]);
+        expect(errors("<rss>")).toEqual(["Feed is not well-formed XML"]);
+        expect(errors("<html/>")).toEqual(["Unknown feed format with root element html"]);
+    });
+});
+
+describe("feeds of the feed output node", () => {
+    it.each([FeedType.RSS, FeedType.Atom, FeedType.JSONFeed])("are valid %s", async (feedType) => {
+        const environment: MapperEnvironment = {dom: dom, fetch: async (fromNode) => ({fromNode: fromNode, kind: PipeState.Err, error: "No fetching in tests"})};
+        const message = await nodeDefinition("feedOutputNode")?.createMapper("feed", {feedType: feedType}, environment);
+        expect(message?.kind).toBe(PipeState.Ok);
+        const mapper = (message as { value: PipeMapper }).value;
+        const output = await mapper({
+            "title": typedValues(ValueType.Text, ["Feed"]),
+            "link": typedValues(ValueType.URL, ["https://example.com/"]),
+            "description": typedValues(ValueType.Text, ["Description"]),
+            "language": typedValues(ValueType.Text, ["en"]),
+            "item-title": typedValues(ValueType.Text, ["A", "B"]),
+            "item-link": typedValues(ValueType.URL, ["https://example.com/a", "https://example.com/b"]),
+            "item-description": typedValues(ValueType.Text, ["Item A", "Item B"]),
+            "item-author": typedValues(ValueType.Text, ["jane@example.com (Jane)", "joe@example.com (Joe)"]),
+            "item-date": typedValues(ValueType.Date, ["2024-03-01T10:00:00.000Z", "2024-03-02T10:00:00.000Z"]),
+            "item-guid": typedValues(ValueType.Text, ["https://example.com/a", "https://example.com/b"])
+        }, new AbortController().signal);
+        expect(validateFeed(output["feed-out"][0].value as string, dom)).toEqual([]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,322 @@
+// Checks of generated feeds against the RSS 2.0, Atom (RFC 4287) and JSON Feed 1.1 specifications
+
+import type {MapperDOM} from "@/app/feed/mappers";
+import {isJSONObject} from "@/app/feed/pipeline";
+
+/**
+ * Specification violation or questionable content found in a feed
+ */
+export type FeedFinding = {
+    /**
+     * Errors violate the specification, warnings are allowed but likely to cause problems in feed readers
+     */
+    severity: "error" | "warning",
+    /**
+     * Index of the offending item (RSS item, Atom entry or JSON Feed item), absent for findings about the feed itself
+     */
+    item?: number,
+    message: string
+};
+
+const ATOM_NAMESPACE = "http://www.w3.org/2005/Atom";
+
+/**
+ * RFC 822 date-time, with the four-digit years RSS recommends also accepted
+ */
+const RFC_822_DATE = /^(?:(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun),\s*)?\d{1,2}\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{2,4}\s+\d{2}:\d{2}(?::\d{2})?\s+(?:[+-]\d{4}|UT|GMT|EST|EDT|CST|CDT|MST|MDT|PST|PDT|[A-IK-Z])$/;
+
+/**
+ * RFC 3339 date-time, as required by Atom and JSON Feed
+ */
+const RFC_3339_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Email address, optionally followed by a name in parentheses, as RSS author elements require
+ */
+const RSS_EMAIL = /^[^\s@()]+@[^\s@()]+\.[^\s@()]+(?:\s*\(.*\))?$/;
+
+/**
+ * Check if text is an absolute URL
+ */
+function isAbsoluteURL(text: string): boolean {
+    try {
+        new URL(text);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Child elements of an element with a local name, regardless of namespace
+ */
+function childElements(element: Element, name: string): Element[] {
+    return Array.from(element.children).filter((child) => child.localName == name);
+}
+
+/**
+ * Trimmed text of the first child element with a local name, or undefined if there is no such element
+ */
+function childText(element: Element, name: string): string | undefined {
+    return childElements(element, name)[0]?.textContent?.trim();
+}
+
+/**
+ * Report duplicate identifiers of items, which make feed readers skip or merge items
+ * @param ids Identifier of each item, undefined if an item has none
+ * @param label Name of the identifier in the feed format, for messages
+ */
+function duplicateIDs(ids: (string | undefined)[], label: string): FeedFinding[] {
+    let findings = [] as FeedFinding[];
+    let seen = new Map<string, number>();
+    ids.forEach((id, index) => {
+        if (id == undefined) {
+            return;
+        }
+        const first = seen.get(id);
+        if (first != undefined) {
+            findings.push({severity: "warning", item: index, message: label + " is the same as that of item " + (first + 1)});
+        } else {
+            seen.set(id, index);
+        }
+    });
+    return findings;
+}
+
+/**
+ * Check an RSS 2.0 document
+ * @param rss Root rss element
+ */
+function validateRSS(rss: Element): FeedFinding[] {
+    let findings = [] as FeedFinding[];
+    if (rss.getAttribute("version") != "2.0") {
+        findings.push({severity: "error", message: "rss element must have version 2.0"});
+    }
+    const channel = childElements(rss, "channel")[0];
+    if (channel == undefined) {
+        findings.push({severity: "error", message: "Feed has no channel element"});
+        return findings;
+    }
+    for (let element of ["title", "link", "description"]) {
+        if (!childText(channel, element)) {
+            findings.push({severity: "error", message: "Channel is missing its " + element});
+        }
+    }
+    const link = childText(channel, "link");
+    if (link && !isAbsoluteURL(link)) {
+        findings.push({severity: "error", message: "Channel link is not an absolute URL"});
+    }
+
+    const items = childElements(channel, "item");
+    if (items.length == 0) {
+        findings.push({severity: "warning", message: "Feed has no items"});
+    }
+    items.forEach((item, index) => {
+        if (!childText(item, "title") && !childText(item, "description")) {
+            findings.push({severity: "error", item: index, message: "Item must have a title or a description"});
+        }
+        const itemLink = childText(item, "link");
+        if (itemLink != undefined && !isAbsoluteURL(itemLink)) {
+            findings.push({severity: "error", item: index, message: "Link is not an absolute URL"});
+        }
+        const author = childText(item, "author");
+        if (author != undefined && !RSS_EMAIL.test(author)) {
+            findings.push({severity: "warning", item: index, message: "Author must be an email address, e.g. \"jane@example.com (Jane Doe)\""});
+        }
+        const pubDate = childText(item, "pubDate");
+        if (pubDate != undefined && !RFC_822_DATE.test(pubDate)) {
+            findings.push({severity: "error", item: index, message: "Publication date \"" + pubDate + "\" is not an RFC 822 date"});
+        }
+        const guid = childElements(item, "guid")[0];
+        if (guid == undefined) {
+            findings.push({severity: "warning", item: index, message: "Item has no guid; Feed readers then guess which items are new"});
+        } else if (guid.getAttribute("isPermaLink") != "false" && !isAbsoluteURL(guid.textContent?.trim() ?? "")) {
+            findings.push({severity: "error", item: index, message: "guid is a permalink, but not an absolute URL; Set isPermaLink to false"});
+        }
+        for (let enclosure of childElements(item, "enclosure")) {
+            for (let attribute of ["url", "length", "type"]) {
+                if (!enclosure.getAttribute(attribute)) {
+                    findings.push({severity: "error", item: index, message: "Enclosure is missing its " + attribute + " attribute"});
+                }
+            }
+        }
+    });
+    findings.push(...duplicateIDs(items.map((item) => childText(item, "guid")), "guid"));
+    return findings;
+}
+
+/**
+ * Check the attributes of an Atom element and its descendants
+ *
+ * Atom sets the language through `xml:lang`, a plain `lang` attribute is ignored. Person constructs (author and contributor) have plain text names,
+ * which unlike text constructs take no type attribute.
+ *
+ * @param element Element to check
+ * @param item Index of the entry the element belongs to, undefined for elements of the feed itself
+ */
+function atomAttributes(element: Element, item?: number): FeedFinding[] {
+    let findings = [] as FeedFinding[];
+    // Entries are checked on their own, so that findings refer to them
+    const elements = [element, ...Array.from(element.getElementsByTagName("*"))]
+        .filter((descendant) => item != undefined || descendant.closest("entry") == null);
+    for (let descendant of elements) {
+        if (descendant.hasAttributeNS(null, "lang")) {
+            findings.push({severity: "error", item: item, message: descendant.localName + " has a lang attribute, which Atom ignores; Use xml:lang"});
+        }
+        if (descendant.localName == "name" && descendant.hasAttribute("type")
+            && (descendant.parentElement?.localName == "author" || descendant.parentElement?.localName == "contributor")) {
+            findings.push({severity: "error", item: item, message: descendant.parentElement.localName + " name must not have a type attribute"});
+        }
+    }
+    return findings;
+}
+
+/**
+ * Check an Atom document
+ * @param feed Root feed element
+ */
+function validateAtom(feed: Element): FeedFinding[] {
+    let findings = [] as FeedFinding[];
+    if (feed.namespaceURI != ATOM_NAMESPACE) {
+        findings.push({severity: "error", message: "feed element is not in the Atom namespace " + ATOM_NAMESPACE});
+    }
+    for (let element of ["id", "title", "updated"]) {
+        if (!childText(feed, element)) {
+            findings.push({severity: "error", message: "Feed is missing its " + element});
+        }
+    }
+    const updated = childText(feed, "updated");
+    if (updated && !RFC_3339_DATE.test(updated)) {
+        findings.push({severity: "error", message: "Feed update date \"" + updated + "\" is not an RFC 3339 date"});
+    }
+    findings.push(...atomAttributes(feed));
+
+    const entries = childElements(feed, "entry");
+    if (entries.length == 0) {
+        findings.push({severity: "warning", message: "Feed has no entries"});
+    }
+    const feedHasAuthor = childElements(feed, "author").length > 0;
+    entries.forEach((entry, index) => {
+        for (let element of ["id", "title", "updated"]) {
+            if (!childText(entry, element)) {
+                findings.push({severity: "error", item: index, message: "Entry is missing its " + element});
+            }
+        }
+        const id = childText(entry, "id");
+        if (id && !isAbsoluteURL(id)) {
+            findings.push({severity: "error", item: index, message: "id \"" + id + "\" is not an IRI"});
+        }
+        for (let element of ["updated", "published"]) {
+            const date = childText(entry, element);
+            if (date && !RFC_3339_DATE.test(date)) {
+                findings.push({severity: "error", item: index, message: "Entry " + element + " date \"" + date + "\" is not an RFC 3339 date"});
+            }
+        }
+        const links = childElements(entry, "link");
+        const hasAlternate = links.some((link) => (link.getAttribute("rel") ?? "alternate") == "alternate");
+        if (childElements(entry, "content").length == 0 && !hasAlternate) {
+            findings.push({severity: "error", item: index, message: "Entry must have content or a link"});
+        }
+        if (childElements(entry, "content").length == 0 && childElements(entry, "summary").length == 0) {
+            findings.push({severity: "warning", item: index, message: "Entry has neither content nor summary"});
+        }
+        if (!feedHasAuthor && childElements(entry, "author").length == 0) {
+            findings.push({severity: "error", item: index, message: "Entry has no author, which is required unless the feed has one"});
+        }
+        findings.push(...atomAttributes(entry, index));
+    });
+    findings.push(...duplicateIDs(entries.map((entry) => childText(entry, "id")), "id"));
+    return findings;
+}
+
+/**
+ * Check a JSON Feed 1.1 document
+ * @param feed Parsed feed object
+ */
+function validateJSONFeed(feed: { [key: string]: unknown }): FeedFinding[] {
+    let findings = [] as FeedFinding[];
+    if (typeof feed.version != "string" || !feed.version.startsWith("https://jsonfeed.org/version/")) {
+        findings.push({severity: "error", message: "Feed is missing its version URL"});
+    }
+    if (typeof feed.title != "string" || feed.title.length == 0) {
+        findings.push({severity: "error", message: "Feed is missing its title"});
+    }
+    if (typeof feed.home_page_url == "string" && !isAbsoluteURL(feed.home_page_url)) {
+        findings.push({severity: "error", message: "home_page_url is not an absolute URL"});
+    }
+    if (!Array.isArray(feed.items)) {
+        findings.push({severity: "error", message: "Feed has no items array"});
+        return findings;
+    }
+    if (feed.items.length == 0) {
+        findings.push({severity: "warning", message: "Feed has no items"});
+    }
+    feed.items.forEach((item: unknown, index) => {
+        if (!isJSONObject(item)) {
+            findings.push({severity: "error", item: index, message: "Item is not a JSON object"});
+            return;
+        }
+        if (typeof item.id != "string" || item.id.length == 0) {
+            findings.push({severity: "error", item: index, message: "Item is missing its id"});
+        }
+        if (typeof item.content_html != "string" && typeof item.content_text != "string") {
+            findings.push({severity: "error", item: index, message: "Item must have content_html or content_text"});
+        } else if (!item.content_html && !item.content_text) {
+            findings.push({severity: "warning", item: index, message: "Item content is empty"});
+        }
+        if (typeof item.url == "string" && !isAbsoluteURL(item.url)) {
+            findings.push({severity: "error", item: index, message: "url is not an absolute URL"});
+        }
+        for (let field of ["date_published", "date_modified"]) {
+            const date = item[field];
+            if (date != undefined && (typeof date != "string" || !RFC_3339_DATE.test(date))) {
+                findings.push({severity: "error", item: index, message: field + " is not an RFC 3339 date"});
+            }
+        }
+    });
+    findings.push(...duplicateIDs(feed.items.map((item: unknown) => isJSONObject(item) && typeof item.id == "string" ? item.id : undefined), "id"));
+    return findings;
+}
+
+/**
+ * Check a feed against its format's specification
+ *
+ * The format is detected from the document: JSON text is checked as JSON Feed, XML documents as RSS or Atom by their root element.
+ *
+ * @param feedText Serialized feed, e.g. the `feed-out` value of the feed output node
+ * @param dom DOM implementation to parse XML feeds with
+ * @returns Findings in document order per item, feed-level findings first
+ */
+export function validateFeed(feedText: string, dom: Pick<MapperDOM, "DOMParser">): FeedFinding[] {
+    let findings: FeedFinding[];
+    if (feedText.trimStart().startsWith("{")) {
+        let feed: unknown;
+        try {
+            feed = JSON.parse(feedText);
+        } catch (e) {
+            return [{severity: "error", message: "Feed is not valid JSON"}];
+        }
+        findings = validateJSONFeed(feed as { [key: string]: unknown });
+    } else {
+        const feedDocument = new dom.DOMParser().parseFromString(feedText, "application/xml");
+        const root = feedDocument.documentElement;
+        if (root == null || feedDocument.getElementsByTagName("parsererror").length > 0) {
+            return [{severity: "error", message: "Feed is not well-formed XML"}];
+        } else if (root.localName == "rss") {
+            findings = validateRSS(root);
+        } else if (root.localName == "feed") {
+            findings = validateAtom(root);
+        } else {
+            return [{severity: "error", message: "Unknown feed format with root element " + root.localName}];
+        }
+    }
+    return findings.sort((a, b) => (a.item ?? -1) - (b.item ?? -1));
+}
+
+/**
+ * Describe a finding for display, including the item it concerns
+ * @param finding Finding to describe
+ */
+export function feedFindingText(finding: FeedFinding): string {
+    return (finding.item != undefined ? "Item " + (finding.item + 1) + ": " : "") + finding.message;
+}
\ No newline at end of file
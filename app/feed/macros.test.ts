@@ -0,0 +1,71 @@
+import {describe, expect, it} from "vitest";
+import {createMacro, MACRO_INPUT_NODE, macroHandles, parseMacro, serializeMacro} from "@/app/feed/macros";
+// Registers the built-in node types
+import "@/app/feed/mappers";
+import {NodeConfig, PipelineEdge, PipelineNode} from "@/app/feed/pipeline";
+import {NodeDefinition, nodeDefinition} from "@/app/feed/registry";
+import {ValueType} from "@/app/feed/values";
+
+/**
+ * Node of a built-in type, with the type's default configuration completed by the given configuration
+ */
+function node(id: string, type: string, x: number, y: number, config: NodeConfig = {}): PipelineNode {
+    return {id: id, type: type, position: {x: x, y: y}, config: {...(nodeDefinition(type) as NodeDefinition).defaultConfig, ...config}};
+}
+
+const nodes: PipelineNode[] = [
+    node("in", "textInputNode", 0, 0, {text: "a"}),
+    node("regex", "regexNode", 200, 100, {regex: "a"}),
+    node("query", "jsonQueryNode", 400, 50, {query: "a"}),
+    node("out", "feedOutputNode", 600, 0)
+];
+const edges: PipelineEdge[] = [
+    {source: "in", sourceHandle: "text-out", target: "regex", targetHandle: "data-in"},
+    {source: "regex", sourceHandle: "data-out", target: "query", targetHandle: "data-in"},
+    {source: "query", sourceHandle: "data-out", target: "out", targetHandle: "title"}
+];
+const handles = Object.fromEntries(nodes.slice(1, 3).map((node) => [node.id, (nodeDefinition(node.type) as NodeDefinition).handles]));
+
+describe("createMacro", () => {
+    const macro = createMacro("Extract", nodes.slice(1, 3), edges, handles);
+
+    it("exposes the handles of edges crossing the macro's boundary", () => {
+        expect(macroHandles(macro)).toEqual({
+            source: [{id: "query.data-out", label: "OUT", types: [ValueType.JSON], group: undefined}],
+            target: [{id: "regex.data-in", label: "IN", types: [ValueType.Text], group: undefined}]
+        });
+        expect(macro.inputs[0]).toMatchObject({node: "regex", handle: "data-in"});
+        expect(macro.outputs[0]).toMatchObject({node: "query", handle: "data-out"});
+    });
+
+    it("keeps only the edges within the macro, and positions nodes relative to the top-left node", () => {
+        expect(macro.pipeline.edges).toEqual([edges[1]]);
+        expect(macro.pipeline.nodes.map((node) => node.position)).toEqual([{x: 0, y: 50}, {x: 200, y: 0}]);
+    });
+
+    it("survives serialization", () => {
+        expect(parseMacro(serializeMacro(macro))).toEqual(macro);
+    });
+});
+
+describe("parseMacro", () => {
+    const macro = createMacro("Extract", nodes.slice(1, 3), edges, handles);
+    const withChanges = (changes: object) => JSON.stringify({...JSON.parse(serializeMacro(macro)), ...changes});
+
+    it.each([
+        ["invalid JSON", "{", "Macro is not valid JSON"],
+        ["non-objects", "[]", "Macro must be a JSON object with a name"],
+        ["macros without name", withChanges({name: 1}), "Macro must be a JSON object with a name"],
+        ["macros without handle lists", withChanges({inputs: null}), "must have a list of inputs and a list of outputs"],
+        ["handles of unknown nodes", withChanges({outputs: [{id: "x", label: "X", node: "missing", handle: "data-out"}]}), "refers to unknown node: missing"],
+        ["handles with unknown types", withChanges({outputs: [{id: "x", label: "X", node: "query", handle: "data-out", types: ["bogus"]}]}), "Invalid handle"],
+        ["handles that are not objects", withChanges({inputs: ["regex.data-in"]}), "Invalid handle"]
+    ])("rejects %s", (_case, text, message) => {
+        expect(() => parseMacro(text)).toThrow(message);
+    });
+
+    it("rejects macros containing the reserved input node ID", () => {
+        const reserved = createMacro("Reserved", [{...nodes[1], id: MACRO_INPUT_NODE}], [], {});
+        expect(() => parseMacro(serializeMacro(reserved))).toThrow("reserved ID");
+    });
+});
\ No newline at end of file
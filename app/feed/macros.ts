@@ -0,0 +1,199 @@
+// Macros; Reusable sub-pipelines that are used as a single node. Like pipeline.ts this does not depend on React so that it is available on both client and server
+
+import {HandleInfo, Handles} from "@/app/feed/pipe";
+import {ValueType} from "@/app/feed/values";
+import {isJSONObject, PIPELINE_VERSION, PipelineDocument, PipelineEdge, PipelineNode, readPipeline} from "@/app/feed/pipeline";
+
+/**
+ * Node type of macro nodes
+ */
+export const MACRO_NODE = "macroNode";
+
+/**
+ * ID of the node that provides the input of a macro during evaluation; Reserved, macros cannot contain a node with this ID
+ */
+export const MACRO_INPUT_NODE = "macro-input";
+
+/**
+ * Handle of a macro node, exposing a handle of a node within the macro
+ */
+export interface MacroHandle extends HandleInfo {
+    /**
+     * ID of the node within the macro
+     */
+    node: string,
+    /**
+     * ID of the exposed handle on that node
+     */
+    handle: string
+}
+
+/**
+ * Reusable sub-pipeline
+ */
+export interface MacroDefinition {
+    /**
+     * Display name of this macro, unique within the macro library
+     */
+    name: string,
+    /**
+     * Nodes and edges within this macro
+     */
+    pipeline: PipelineDocument,
+    /**
+     * Input handles of the macro node, each passing its data to an input handle of a node within the macro
+     */
+    inputs: MacroHandle[],
+    /**
+     * Output handles of the macro node, each taking its data from an output handle of a node within the macro
+     */
+    outputs: MacroHandle[]
+}
+
+/**
+ * ID of a macro handle exposing a handle of a node within the macro
+ * @param nodeID ID of the node within the macro
+ * @param handleID ID of the exposed handle
+ */
+export function macroHandleID(nodeID: string, handleID: string): string {
+    return nodeID + "." + handleID;
+}
+
+/**
+ * Create a macro from part of a pipeline
+ *
+ * Handles of the macro are derived from the edges that cross the boundary of the collapsed nodes; Each input handle of a collapsed node
+ * that receives data from outside becomes an input of the macro, and each output handle that sends data outside becomes an output.
+ *
+ * @param name Name of the macro
+ * @param nodes Nodes to collapse into the macro; Nodes within a container node must be collapsed along with it
+ * @param edges All edges of the pipeline
+ * @param handles Handles of the collapsed nodes, keyed by node ID
+ */
+export function createMacro(name: string, nodes: PipelineNode[], edges: PipelineEdge[], handles: { [key: string]: Handles }): MacroDefinition {
+    const nodeIDs = new Set(nodes.map((node) => node.id));
+    // Nodes directly within the macro are positioned relative to the top-left node
+    const topLevel = nodes.filter((node) => node.parent == undefined || !nodeIDs.has(node.parent));
+    const origin = {
+        x: Math.min(...topLevel.map((node) => node.position.x)),
+        y: Math.min(...topLevel.map((node) => node.position.y))
+    };
+
+    let inputs = [] as MacroHandle[];
+    let outputs = [] as MacroHandle[];
+    for (let edge of edges) {
+        if (nodeIDs.has(edge.target) && !nodeIDs.has(edge.source)) {
+            const id = macroHandleID(edge.target, edge.targetHandle);
+            const handleInfo = handles[edge.target].target.find((handle) => handle.id == edge.targetHandle);
+            if (handleInfo != undefined && !inputs.some((input) => input.id == id)) {
+                inputs.push({...handleInfo, id: id, group: undefined, node: edge.target, handle: edge.targetHandle});
+            }
+        } else if (nodeIDs.has(edge.source) && !nodeIDs.has(edge.target)) {
+            const id = macroHandleID(edge.source, edge.sourceHandle);
+            const handleInfo = handles[edge.source].source.find((handle) => handle.id == edge.sourceHandle);
+            if (handleInfo != undefined && !outputs.some((output) => output.id == id)) {
+                outputs.push({...handleInfo, id: id, group: undefined, node: edge.source, handle: edge.sourceHandle});
+            }
+        }
+    }
+
+    return {
+        name: name,
+        pipeline: {
+            version: PIPELINE_VERSION,
+            nodes: nodes.map((node) => {
+                if (node.parent == undefined || !nodeIDs.has(node.parent)) {
+                    return {id: node.id, type: node.type, position: {x: node.position.x - origin.x, y: node.position.y - origin.y}, config: node.config};
+                } else {
+                    return node;
+                }
+            }),
+            edges: edges.filter((edge) => nodeIDs.has(edge.source) && nodeIDs.has(edge.target))
+        },
+        inputs: inputs,
+        outputs: outputs
+    };
+}
+
+/**
+ * Handles of a macro node
+ * @param macro Macro definition
+ */
+export function macroHandles(macro: MacroDefinition): Handles {
+    return {
+        source: macro.outputs.map(({node, handle, ...handleInfo}) => handleInfo),
+        target: macro.inputs.map(({node, handle, ...handleInfo}) => handleInfo)
+    };
+}
+
+/**
+ * Serialize a macro into a JSON string, as stored in the configuration of macro nodes
+ * @param macro Macro to serialize
+ */
+export function serializeMacro(macro: MacroDefinition): string {
+    return JSON.stringify(macro);
+}
+
+/**
+ * Parse and validate a JSON macro definition
+ * @param text JSON text of the macro
+ * @throws Error if the text is not a valid macro
+ */
+export function parseMacro(text: string): MacroDefinition {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Macro is not valid JSON");
+    }
+
+    if (!isJSONObject(json) || typeof json.name != "string") {
+        throw new Error("Macro must be a JSON object with a name");
+    }
+    const name = json.name;
+    const pipeline = readPipeline(json.pipeline);
+    if (pipeline.nodes.some((node) => node.id == MACRO_INPUT_NODE)) {
+        throw new Error("Macro " + name + " contains node with reserved ID: " + MACRO_INPUT_NODE);
+    }
+    if (!Array.isArray(json.inputs) || !Array.isArray(json.outputs)) {
+        throw new Error("Macro " + name + " must have a list of inputs and a list of outputs");
+    }
+
+    const valueTypes = Object.values(ValueType) as string[];
+    function isValueTypes(types: unknown): types is ValueType[] {
+        return Array.isArray(types) && types.every((type) => valueTypes.includes(type));
+    }
+
+    function readHandle(handle: unknown): MacroHandle {
+        if (
+            !isJSONObject(handle)
+            || typeof handle.id != "string"
+            || typeof handle.label != "string"
+            || typeof handle.node != "string"
+            || typeof handle.handle != "string"
+            || (handle.optional != undefined && typeof handle.optional != "boolean")
+            || (handle.types != undefined && !isValueTypes(handle.types))
+        ) {
+            throw new Error("Invalid handle in macro " + name + ": " + JSON.stringify(handle));
+        }
+        const node = handle.node;
+        if (!pipeline.nodes.some((pipelineNode) => pipelineNode.id == node)) {
+            throw new Error("Handle " + handle.id + " of macro " + name + " refers to unknown node: " + node);
+        }
+        return {
+            id: handle.id,
+            label: handle.label,
+            ...typeof handle.optional == "boolean" ? {optional: handle.optional} : {},
+            ...isValueTypes(handle.types) ? {types: handle.types} : {},
+            node: node,
+            handle: handle.handle
+        };
+    }
+
+    return {
+        name: name,
+        pipeline: pipeline,
+        inputs: (json.inputs as unknown[]).map(readHandle),
+        outputs: (json.outputs as unknown[]).map(readHandle)
+    };
+}
\ No newline at end of file
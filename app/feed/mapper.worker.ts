@@ -0,0 +1,100 @@
+// Web Worker running the mappers of worker-safe node types for the editor, see MapperDefinition.workerSafe and @/app/util/mapperworker
+
+import {MapperError, PipeData, PipeMapper, PipeState} from "@/app/feed/pipe";
+import {NodeConfig} from "@/app/feed/pipeline";
+import type {MapperContext, MapperDOM} from "@/app/feed/mappers";
+import {nodeDefinition} from "@/app/feed/registry";
+// Registers the built-in node types
+import "@/app/feed/mappers";
+import "@/app/plugins";
+
+/**
+ * Request to run a node's mapper over its input data
+ */
+export type MapperJob = {
+    id: number,
+    nodeType: string,
+    nodeID: string,
+    config: NodeConfig,
+    input: PipeData
+};
+
+/**
+ * Output of a {@link MapperJob}, or the error thrown by the mapper
+ */
+export type MapperJobResult = { id: number, output: PipeData } | {
+    id: number,
+    error: string,
+    /**
+     * True if the mapper threw a {@link MapperError}, whose message is shown to the user
+     */
+    mapperError: boolean
+};
+
+/**
+ * Context of mappers in this worker; Worker-safe mappers do not use the DOM or fetch, so these fail if used anyway
+ */
+const workerContext: MapperContext = {
+    get dom(): MapperDOM {
+        throw new Error("The DOM is not available in workers");
+    },
+    fetch: async (nodeID) => ({fromNode: nodeID, kind: PipeState.Err, error: "Fetching is not available in workers"})
+};
+
+/**
+ * Maximum number of nodes whose mapper a worker keeps; Workers are not told about deleted nodes, so their mappers are only dropped once they are the least recently used
+ */
+const MAPPER_CACHE_SIZE = 64;
+
+/**
+ * Last created mapper of each node, with the configuration it was created from; Mappers are only created again when the configuration changes. Least recently used first
+ */
+const mappers = new Map<string, { configText: string, mapper: PipeMapper }>();
+
+/**
+ * Create a node's mapper, or reuse the mapper created for an earlier job
+ * @param job Job to create the mapper for
+ * @throws MapperError if no mapper can be created from the job's configuration
+ */
+async function jobMapper(job: MapperJob): Promise<PipeMapper> {
+    const configText = job.nodeType + ":" + JSON.stringify(job.config);
+    const cached = mappers.get(job.nodeID);
+    // Replaced or reinserted below, which marks the node as most recently used
+    mappers.delete(job.nodeID);
+    if (cached != undefined && cached.configText == configText) {
+        mappers.set(job.nodeID, cached);
+        return cached.mapper;
+    }
+
+    const definition = nodeDefinition(job.nodeType);
+    if (definition == undefined || !definition.workerSafe) {
+        throw new Error("Node type cannot run in a worker: " + job.nodeType);
+    }
+    // The configuration was validated when the editor created the node's mapper
+    const message = await definition.createMapper(job.nodeID, job.config, workerContext);
+    switch (message.kind) {
+        case PipeState.Ok:
+            mappers.set(job.nodeID, {configText: configText, mapper: message.value});
+            while (mappers.size > MAPPER_CACHE_SIZE) {
+                mappers.delete(mappers.keys().next().value as string);
+            }
+            return message.value;
+        case PipeState.Err:
+            throw new MapperError(message.error);
+        default:
+            throw new MapperError("Node configuration is invalid");
+    }
+}
+
+self.onmessage = async (event: MessageEvent<MapperJob>) => {
+    const job = event.data;
+    let result: MapperJobResult;
+    try {
+        const mapper = await jobMapper(job);
+        // Jobs are stopped by terminating the worker, so mappers here are never aborted
+        result = {id: job.id, output: await mapper(job.input, new AbortController().signal)};
+    } catch (e) {
+        result = {id: job.id, error: (e as Error).message, mapperError: e instanceof MapperError};
+    }
+    self.postMessage(result);
+};
\ No newline at end of file
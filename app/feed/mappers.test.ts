@@ -0,0 +1,254 @@
+import {describe, expect, it} from "vitest";
+import {JSDOM} from "jsdom";
+import {CombineMode, FeedType, MapperContext, MapperDOM, SortOrder} from "@/app/feed/mappers";
+import {MapperError, PipeData, PipeMapper, PipeMessage, PipeState} from "@/app/feed/pipe";
+import {NodeConfig} from "@/app/feed/pipeline";
+import {createNodeMapper, NodeDefinition, nodeDefinition} from "@/app/feed/registry";
+import {TypedValue, typedValues, ValueType} from "@/app/feed/values";
+
+const dom = new JSDOM().window as unknown as MapperDOM;
+
+/**
+ * Create the data pipe of a node, with its type's default configuration completed by the given configuration
+ * @param nodeType Type of the node
+ * @param config Configuration values that differ from the default configuration
+ * @param fetch Fetch function of the mapper context (Default: fails every fetch)
+ */
+async function createMapper(nodeType: string, config: NodeConfig, fetch?: MapperContext["fetch"]): Promise<PipeMessage<PipeMapper>> {
+    const definition = nodeDefinition(nodeType) as NodeDefinition;
+    return createNodeMapper(definition, "node", {...definition.defaultConfig, ...config}, {
+        dom: dom,
+        fetch: fetch ?? (async (fromNode) => ({fromNode: fromNode, kind: PipeState.Err, error: "No fetching in tests"}))
+    });
+}
+
+/**
+ * Create the data pipe of a node and run it over input data
+ * @throws Error if the data pipe could not be created
+ */
+async function runMapper(nodeType: string, config: NodeConfig, input: PipeData, fetch?: MapperContext["fetch"]): Promise<PipeData> {
+    const message = await createMapper(nodeType, config, fetch);
+    if (message.kind != PipeState.Ok) {
+        throw new Error("Node did not create its pipe: " + JSON.stringify(message));
+    }
+    return message.value(input, new AbortController().signal);
+}
+
+/**
+ * Plain values of an output handle
+ */
+function values(output: PipeData, handle: string): unknown[] {
+    return output[handle].map((value) => value.value);
+}
+
+describe("JSON query node", () => {
+    const json = (...texts: string[]) => ({"data-in": typedValues(ValueType.JSON, texts)});
+
+    it("splits array results unless configured otherwise, and leaves out null results", async () => {
+        const input = json("{\"a\": [1, null, {\"b\": 2}]}", "{\"c\": 3}");
+        expect(values(await runMapper("jsonQueryNode", {query: "a"}, input), "data-out")).toEqual(["1", "{\"b\":2}"]);
+        expect(values(await runMapper("jsonQueryNode", {query: "a", splitArrays: false}, input), "data-out")).toEqual(["[1,null,{\"b\":2}]"]);
+    });
+
+    it("reports invalid queries when its pipe is created", async () => {
+        expect(await createMapper("jsonQueryNode", {query: "a["})).toMatchObject({kind: PipeState.Err});
+        expect(await createMapper("jsonQueryNode", {query: null})).toMatchObject({kind: PipeState.BadConfig});
+    });
+
+    it("reports the input that is not valid JSON, or that the query fails on", async () => {
+        await expect(runMapper("jsonQueryNode", {query: "a"}, json("{}", "{"))).rejects.toThrow(MapperError);
+        await expect(runMapper("jsonQueryNode", {query: "a"}, json("{}", "{"))).rejects.toThrow(/^Input 2 is not valid JSON/);
+        await expect(runMapper("jsonQueryNode", {query: "abs(a)"}, json("{\"a\": \"x\"}"))).rejects.toThrow(/^Query failed on input 1/);
+    });
+});
+
+describe("Merge node", () => {
+    const text = (...texts: string[]) => typedValues(ValueType.Text, texts);
+    const record = (title: string, link: string): TypedValue => ({type: ValueType.Record, value: {title: text(title), link: typedValues(ValueType.URL, [link])}});
+
+    it("interleaves inputs of different lengths", async () => {
+        const output = await runMapper("mergeNode", {inputs: 3, combine: CombineMode.Interleave}, {"in-1": text("a1", "a2", "a3"), "in-2": text("b1"), "in-3": text("c1", "c2")});
+        expect(values(output, "data-out")).toEqual(["a1", "b1", "c1", "a2", "c2", "a3"]);
+    });
+
+    it("zips inputs into records, naming fields and merging record inputs", async () => {
+        const output = await runMapper("mergeNode", {inputs: 3, combine: CombineMode.Zip, zipFields: "title, "}, {
+            "in-1": text("a", "b"),
+            "in-2": typedValues(ValueType.URL, ["https://example.com/a"]),
+            "in-3": [{type: ValueType.Record, value: {author: text("Jane")}}]
+        });
+        expect(output["data-out"]).toEqual([
+            {type: ValueType.Record, value: {title: text("a"), 2: typedValues(ValueType.URL, ["https://example.com/a"]), author: text("Jane")}},
+            {type: ValueType.Record, value: {title: text("b")}}
+        ]);
+    });
+
+    it("removes duplicates by key field, keeping the first and values without a key", async () => {
+        const input = {"in-1": [record("a", "https://example.com/a"), record("b", "https://example.com/b")], "in-2": [record("c", "https://example.com/a"), {type: ValueType.Record, value: {}} as TypedValue]};
+        const output = await runMapper("mergeNode", {dedupe: true, key: "link"}, input);
+        expect(output["data-out"]).toEqual([input["in-1"][0], input["in-1"][1], input["in-2"][1]]);
+        expect(values(await runMapper("mergeNode", {dedupe: true}, {"in-1": text("a", "b", "a"), "in-2": text("b", "c")}), "data-out")).toEqual(["a", "b", "c"]);
+    });
+
+    it("sorts before keeping at most the configured number of values", async () => {
+        const dates = {"in-1": typedValues(ValueType.Date, ["2024-03-01T00:00:00.000Z", "2024-03-03T00:00:00.000Z"]), "in-2": text("undated", "2024-03-02")};
+        const output = await runMapper("mergeNode", {sort: SortOrder.Newest, limit: 3}, dates);
+        expect(values(output, "data-out")).toEqual(["2024-03-03T00:00:00.000Z", "2024-03-02", "2024-03-01T00:00:00.000Z"]);
+        expect(values(await runMapper("mergeNode", {limit: 0}, {"in-1": text("a", "b"), "in-2": text("c")}), "data-out")).toEqual(["a", "b", "c"]);
+    });
+});
+
+
+describe("Feed input node", () => {
+    const rss = `<rss version="2.0"><channel><title>Feed</title><link>https://example.com/</link><description>D</description>
+        <item><title>A</title><link>https://example.com/a</link><pubDate>Fri, 01 Mar 2024 10:00:00 GMT</pubDate></item>
+        <item><title>B</title></item>
+        </channel></rss>`;
+    const fetch: MapperContext["fetch"] = async (fromNode) => ({fromNode: fromNode, kind: PipeState.Ok, value: rss});
+
+    it("outputs only valid values of their type for items lacking a date or link", async () => {
+        const output = await runMapper("feedInputNode", {url: "https://example.com/feed.xml"}, {}, fetch);
+        expect(output["item-title-out"]).toEqual(typedValues(ValueType.Text, ["A", "B"]));
+        expect(output["item-link-out"]).toEqual(typedValues(ValueType.URL, ["https://example.com/a"]));
+        expect(output["item-date-out"]).toEqual(typedValues(ValueType.Date, ["2024-03-01T10:00:00.000Z"]));
+    });
+
+    it("keeps the fields of each item together in its records", async () => {
+        const output = await runMapper("feedInputNode", {url: "https://example.com/feed.xml"}, {}, fetch);
+        expect(output["items-out"][1]).toMatchObject({
+            type: ValueType.Record,
+            value: {title: typedValues(ValueType.Text, ["B"]), link: [], date: []}
+        });
+    });
+});
+
+
+describe("Fetch node", () => {
+    const urls = (...texts: string[]) => ({"url-in": typedValues(ValueType.URL, texts)});
+
+    it("passes the signal of its evaluation to fetches, and keeps only successful results", async () => {
+        let fetches = [] as string[];
+        let signals = [] as (AbortSignal | undefined)[];
+        const fetch: MapperContext["fetch"] = async (fromNode, url, signal) => {
+            fetches.push(url);
+            signals.push(signal);
+            return url.endsWith("/ok") ? {fromNode: fromNode, kind: PipeState.Ok, value: "body"} : {fromNode: fromNode, kind: PipeState.Err, error: "404 Not Found"};
+        };
+        const message = await createMapper("fetchNode", {}, fetch);
+        if (message.kind != PipeState.Ok) {
+            throw new Error("Node did not create its pipe");
+        }
+        const input = urls("https://example.com/ok", "https://example.com/missing", "ftp://example.com/");
+        const controller = new AbortController();
+
+        const output = await message.value(input, controller.signal);
+        expect(values(output, "data-out")).toEqual(["body"]);
+        expect(values(output, "url-out")).toEqual(["https://example.com/ok"]);
+        expect(values(output, "error-out")).toEqual(["https://example.com/missing: 404 Not Found", "ftp://example.com/: Not an HTTP(S) URL"]);
+        expect(signals).toEqual([controller.signal, controller.signal]);
+
+        // Only the failed fetch is repeated
+        await message.value(input, controller.signal);
+        expect(fetches).toEqual(["https://example.com/ok", "https://example.com/missing", "https://example.com/missing"]);
+    });
+
+    it("rejects with the reason of an aborted fetch", async () => {
+        const fetch: MapperContext["fetch"] = (_fromNode, _url, signal) => new Promise((_resolve, reject) => {
+            signal?.addEventListener("abort", () => reject(signal.reason));
+        });
+        const message = await createMapper("fetchNode", {}, fetch);
+        if (message.kind != PipeState.Ok) {
+            throw new Error("Node did not create its pipe");
+        }
+        const controller = new AbortController();
+        const output = message.value(urls("https://example.com/"), controller.signal);
+        controller.abort(new Error("Evaluation cancelled"));
+        await expect(output).rejects.toThrow("Evaluation cancelled");
+    });
+
+    it("reports fetches that did not complete", async () => {
+        const output = await runMapper("fetchNode", {}, urls("https://example.com/"), async (fromNode) => ({fromNode: fromNode, kind: PipeState.Pending}));
+        expect(values(output, "error-out")).toEqual(["https://example.com/: Fetch did not complete"]);
+    });
+});
+
+
+describe("Feed output node", () => {
+    const channel: PipeData = {
+        "title": typedValues(ValueType.Text, ["Feed"]),
+        "link": typedValues(ValueType.URL, ["https://example.com/"]),
+        "description": typedValues(ValueType.Text, ["Description"])
+    };
+    const items: PipeData = {
+        "item-title": typedValues(ValueType.Text, ["A", "B"]),
+        "item-link": typedValues(ValueType.URL, ["https://example.com/a", "https://example.com/b"]),
+        "item-description": [{type: ValueType.HTML, value: "<p>A</p>"}, {type: ValueType.Text, value: "B < C"}] as TypedValue[],
+        "item-date": typedValues(ValueType.Date, ["2024-03-01T10:00:00.000Z", "2024-03-02T10:00:00.000Z"]),
+        "item-guid": typedValues(ValueType.Text, ["https://example.com/a", "b"]),
+        "item-category": typedValues(ValueType.Text, ["News", ""]),
+        "item-enclosure": typedValues(ValueType.URL, ["https://example.com/a.mp3", ""]),
+        "item-enclosure-type": typedValues(ValueType.Text, ["audio/mpeg", ""])
+    };
+
+    /**
+     * Generate a feed
+     * @returns Text of the feed
+     */
+    async function feed(feedType: FeedType, input: PipeData): Promise<string> {
+        return (await runMapper("feedOutputNode", {feedType: feedType}, {...channel, ...input}))["feed-out"][0].value as string;
+    }
+
+    /**
+     * Generate an XML feed and parse it
+     */
+    async function xmlFeed(feedType: FeedType, input: PipeData): Promise<Document> {
+        return new dom.DOMParser().parseFromString(await feed(feedType, input), "application/xml");
+    }
+
+    it("generates JSON Feed items with their ID, dates, tags, attachments and type of content", async () => {
+        const json = JSON.parse(await feed(FeedType.JSONFeed, items));
+        expect(json.items).toEqual([
+            {
+                id: "https://example.com/a",
+                url: "https://example.com/a",
+                title: "A",
+                content_html: "<p>A</p>",
+                date_published: "2024-03-01T10:00:00.000Z",
+                tags: ["News"],
+                attachments: [{url: "https://example.com/a.mp3", mime_type: "audio/mpeg"}]
+            },
+            {id: "b", url: "https://example.com/b", title: "B", content_text: "B < C", date_published: "2024-03-02T10:00:00.000Z"}
+        ]);
+    });
+
+    it("generates RSS items with RFC 822 dates, GUIDs that are not links, categories and complete enclosures", async () => {
+        const rss = await xmlFeed(FeedType.RSS, items);
+        const [first, second] = Array.from(rss.querySelectorAll("item"));
+        expect(first.querySelector("pubDate")?.textContent).toBe("Fri, 01 Mar 2024 10:00:00 GMT");
+        expect(first.querySelector("guid")?.getAttribute("isPermaLink")).toBeNull();
+        expect(second.querySelector("guid")?.getAttribute("isPermaLink")).toBe("false");
+        expect(first.querySelector("category")?.textContent).toBe("News");
+        expect(second.querySelector("category")).toBeNull();
+        const enclosure = first.querySelector("enclosure");
+        expect([enclosure?.getAttribute("url"), enclosure?.getAttribute("type"), enclosure?.getAttribute("length")]).toEqual(["https://example.com/a.mp3", "audio/mpeg", "0"]);
+    });
+
+    it("generates Atom entries with IDs, update dates and the type of their summary", async () => {
+        const atom = await xmlFeed(FeedType.Atom, {...items, "item-guid": typedValues(ValueType.Text, ["https://example.com/a", ""])});
+        expect(atom.querySelector("feed > updated")?.textContent).toBe("2024-03-02T10:00:00.000Z");
+        const [first, second] = Array.from(atom.querySelectorAll("entry"));
+        expect(first.querySelector("id")?.textContent).toBe("https://example.com/a");
+        expect(first.querySelector("updated")?.textContent).toBe("2024-03-01T10:00:00.000Z");
+        expect(first.querySelector("summary")?.getAttribute("type")).toBe("html");
+        // Without a GUID, the link identifies the entry
+        expect(second.querySelector("id")?.textContent).toBe("https://example.com/b");
+        expect(second.querySelector("summary")?.getAttribute("type")).toBe("text");
+        expect(second.querySelector("summary")?.textContent).toBe("B < C");
+    });
+
+    it("identifies Atom entries without GUID or link by the feed's link, and updates the feed at generation without dates", async () => {
+        const atom = await xmlFeed(FeedType.Atom, {"item-title": typedValues(ValueType.Text, ["A"]), "item-link": typedValues(ValueType.URL, [""])});
+        expect(atom.querySelector("entry > id")?.textContent).toBe("https://example.com/#item-1");
+        expect(Date.now() - new Date(atom.querySelector("feed > updated")?.textContent as string).getTime()).toBeLessThan(60000);
+    });
+});
\ No newline at end of file
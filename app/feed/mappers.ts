@@ -0,0 +1,1863 @@
+// Node data processing, separate from the React node components so that pipelines can be evaluated without an editor
+
+import {search} from "jmespath";
+import {Handles, mapMessage, MapperError, PipeData, PipeMapper, PipeMessage, PipeState} from "@/app/feed/pipe";
+import {convertValue, RecordFields, typedValues, TypedValue, ValueType, valueText} from "@/app/feed/values";
+import {NodeConfig} from "@/app/feed/pipeline";
+import {newDocument} from "@/app/feed/feedgenerator";
+import {ParsedFeed, ParsedFeedItem, parseFeed} from "@/app/feed/feedparser";
+import {checkCondition, parseCondition, testCondition} from "@/app/feed/conditions";
+import {DEMO_DOCUMENT} from "@/app/feed/demodocument";
+import {MACRO_INPUT_NODE, MacroDefinition, macroHandles, parseMacro} from "@/app/feed/macros";
+import {createEvaluationNodes, DEFAULT_TIME_BUDGET, EvaluationNode, evaluatePipeline} from "@/app/feed/executor";
+import {NodeDefinition, registerNode} from "@/app/feed/registry";
+
+/**
+ * DOM APIs used by mappers; In the browser this is simply `window`, elsewhere a DOM implementation such as jsdom must be provided
+ */
+export type MapperDOM = Pick<typeof globalThis, "DOMParser" | "XMLSerializer" | "XPathResult" | "Element" | "Text" | "document">;
+
+/**
+ * Environment-specific functionality available to mappers
+ */
+export interface MapperContext {
+    /**
+     * DOM implementation for nodes that parse or generate HTML/XML
+     */
+    dom: MapperDOM,
+    /**
+     * Fetch function for nodes that retrieve external data, usually {@link client_fetch} or {@link server_fetch}
+     * @param fromNode NodeID of node that originates this call
+     * @param url URL to fetch
+     * @param signal Aborts the fetch; The returned promise then rejects with the signal's reason
+     */
+    fetch: (fromNode: string, url: string, signal?: AbortSignal) => Promise<PipeMessage<string>>,
+    /**
+     * Report progress of asynchronous work, if the environment displays it
+     * @param value Number in range of 0 to 1 (inclusive), or null once the work is complete
+     */
+    progress?: (value: number | null) => void
+}
+
+/**
+ * Part of the {@link MapperContext} that is shared by all nodes in an environment
+ */
+export type MapperEnvironment = Omit<MapperContext, "progress">;
+
+/**
+ * Data processing definition of a node type
+ */
+export interface MapperDefinition {
+    /**
+     * Handles of this node type
+     */
+    handles: Handles,
+    /**
+     * Configuration for newly created nodes of this type
+     */
+    defaultConfig: NodeConfig,
+    /**
+     * Optional handles that depend on a node's configuration, replacing {@link handles}; Use {@link mapperHandles} to obtain the handles of a node
+     * @param config Configuration of the node
+     */
+    configHandles?: (config: NodeConfig) => Handles,
+    /**
+     * If true, the mapper only uses the node's configuration and input data, and not the DOM or fetch of its {@link MapperContext}
+     *
+     * The editor then runs the mapper in a Web Worker, so that long-running mappers (e.g. a regex with catastrophic backtracking) do not block the editor and can be stopped.
+     * Workers have no DOM, so mappers that use it (XPath, CSS selectors, records, feed output) always run on the main thread, where a slow document blocks the editor.
+     */
+    workerSafe?: boolean,
+    /**
+     * Maximum time in milliseconds for a single evaluation of a node of this type, after which its evaluation is stopped and reported as an error (Default: {@link DEFAULT_TIME_BUDGET})
+     *
+     * The budget only applies to asynchronous mappers, such as those that fetch data or run in a worker (see {@link workerSafe}).
+     * Synchronous mappers on the main thread cannot be interrupted, and are never reported as timed out.
+     */
+    timeBudget?: number,
+    /**
+     * Create the data pipe for a node of this type from its configuration
+     *
+     * Returns a BadConfig message if the configuration is incomplete, or an Err message if the configuration is invalid or required data could not be retrieved.
+     *
+     * @param nodeID ID of the node, used as the source of the returned message
+     * @param config Configuration of the node, must contain all keys of {@link defaultConfig}
+     * @param context Environment-specific functionality
+     */
+    createMapper: (nodeID: string, config: NodeConfig, context: MapperContext) => PipeMessage<PipeMapper> | Promise<PipeMessage<PipeMapper>>
+}
+
+/**
+ * Handles of a node, which for some node types depend on its configuration
+ * @param definition Data processing definition of the node's type
+ * @param config Configuration of the node
+ */
+export function mapperHandles(definition: MapperDefinition, config: NodeConfig): Handles {
+    return definition.configHandles?.(config) ?? definition.handles;
+}
+
+/**
+ * Configuration for the HTML input node
+ */
+export type HTMLInputConfig = {
+    /**
+     * URL to retrieve, null if no (valid) URL has been entered
+     */
+    url: string | null
+}
+
+/**
+ * Configuration for the feed input node
+ */
+export type FeedInputConfig = {
+    /**
+     * URL of the feed to retrieve, null if no (valid) URL has been entered
+     */
+    url: string | null
+}
+
+/**
+ * Configuration for the text input node
+ */
+export type TextInputConfig = {
+    /**
+     * Text to output, null if no text has been entered
+     */
+    text: string | null
+}
+
+/**
+ * Configuration for the regex node
+ */
+export type RegexConfig = {
+    /**
+     * Regex source, null if no (valid) regex has been entered
+     */
+    regex: string | null,
+    ignorecase: boolean,
+    multiline: boolean,
+    dotall: boolean,
+    unicode: boolean
+}
+
+export enum ParseMode {
+    HTML = "HTML",
+    XML = "XML"
+}
+
+/**
+ * Configuration for the XPath node
+ */
+export type XPathConfig = {
+    /**
+     * XPath expression, null if no (valid) XPath has been entered
+     */
+    xpath: string | null,
+    parseMode: ParseMode
+}
+
+export enum SelectorOutput {
+    Text = "Text",
+    InnerHTML = "InnerHTML",
+    OuterHTML = "OuterHTML",
+    Attribute = "Attribute"
+}
+
+/**
+ * Configuration for the CSS selector node
+ */
+export type SelectorConfig = {
+    /**
+     * CSS selector, null if no (valid) selector has been entered
+     */
+    selector: string | null,
+    output: SelectorOutput,
+    /**
+     * Attribute to output in {@link SelectorOutput.Attribute} mode, null if no attribute has been entered
+     */
+    attribute: string | null
+}
+
+/**
+ * Configuration for the records node
+ */
+export type RecordsConfig = {
+    /**
+     * CSS selector matching the element of each record, null if no (valid) selector has been entered
+     */
+    itemSelector: string | null,
+    /**
+     * Field definitions, see {@link parseRecordFields}; null if no (valid) definitions have been entered
+     */
+    fields: string | null
+}
+
+/**
+ * Configuration for the for-each node; Only its display size, as the nodes it contains determine what it does
+ */
+export type ForEachConfig = {
+    width: number,
+    height: number
+}
+
+/**
+ * Configuration for macro nodes
+ */
+export type MacroConfig = {
+    /**
+     * Definition of the macro, see {@link serializeMacro}; null for a macro node without definition
+     */
+    macro: string | null
+}
+
+/**
+ * Configuration for the fetch node
+ */
+export type FetchConfig = {
+    /**
+     * Maximum number of URLs fetched at the same time
+     */
+    concurrency: number
+}
+
+/**
+ * Configuration for the JSON query node
+ */
+export type JSONQueryConfig = {
+    /**
+     * JMESPath expression, null if no (valid) expression has been entered
+     */
+    query: string | null,
+    /**
+     * If true, a query result that is an array is output as separate values, one per array element
+     */
+    splitArrays: boolean
+}
+
+export enum CombineMode {
+    /**
+     * All values of the first input, then those of the second input, etc.
+     */
+    Concatenate = "Concatenate",
+    /**
+     * First value of each input, then the second value of each input, etc.
+     */
+    Interleave = "Interleave",
+    /**
+     * One record per index, with a field per input; Record values contribute their own fields
+     */
+    Zip = "Zip"
+}
+
+export enum SortOrder {
+    None = "None",
+    Newest = "Newest first",
+    Oldest = "Oldest first",
+    Ascending = "A-Z",
+    Descending = "Z-A"
+}
+
+/**
+ * Configuration for the merge node
+ */
+export type MergeConfig = {
+    /**
+     * Number of input handles
+     */
+    inputs: number,
+    combine: CombineMode,
+    /**
+     * Comma-separated field names of zipped records, one per input; Inputs without a name use their number
+     */
+    zipFields: string | null,
+    /**
+     * If true, only the first value with each key is kept
+     */
+    dedupe: boolean,
+    /**
+     * Record field that identifies and orders values, null to use values themselves
+     */
+    key: string | null,
+    sort: SortOrder,
+    /**
+     * Maximum number of values kept after sorting, 0 to keep all values
+     */
+    limit: number
+}
+
+export enum FilterMode {
+    Keep = "Keep matching",
+    Drop = "Drop matching"
+}
+
+/**
+ * Configuration for the filter node
+ */
+export type FilterConfig = {
+    /**
+     * Condition that values are tested against, see {@link parseCondition}; Null if no (valid) condition has been entered
+     */
+    condition: string | null,
+    mode: FilterMode,
+    /**
+     * Number of companion lists, which are filtered along with the input
+     */
+    companions: number
+}
+
+export enum FeedType {
+    RSS = "RSS",
+    Atom = "Atom",
+    JSONFeed = "JSON Feed"
+}
+
+/**
+ * Configuration for the feed output node
+ */
+export type FeedOutputConfig = {
+    feedType: FeedType
+}
+
+const demoInputNode: NodeDefinition = {
+    type: "demoInputNode",
+    displayName: "Demo Document Input",
+    category: "Input",
+    configSchema: {},
+    handles: {
+        source: [{id: "text-out", label: "HTML", types: [ValueType.HTML]}],
+        target: []
+    },
+    defaultConfig: {},
+    createMapper: (nodeID) => ({fromNode: nodeID, kind: PipeState.Ok, value: () => ({"text-out": typedValues(ValueType.HTML, [DEMO_DOCUMENT])})})
+}
+
+const htmlInputNode: NodeDefinition = {
+    type: "htmlInputNode",
+    displayName: "HTML Input",
+    category: "Input",
+    configSchema: {
+        url: {type: "url", label: "URL", nullable: true, placeholder: "https://example.com"}
+    },
+    handles: {
+        source: [{id: "html-out", label: "HTML", types: [ValueType.HTML]}],
+        target: []
+    },
+    defaultConfig: {url: null} as HTMLInputConfig,
+    createMapper: async (nodeID, config, context) => {
+        const {url} = config as HTMLInputConfig;
+        if (url != null) {
+            const message = await context.fetch(nodeID, url);
+            return mapMessage(message, (documentText) => {
+                return (_input: PipeData) => ({"html-out": typedValues(ValueType.HTML, [documentText])})
+            });
+        } else {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+    }
+}
+
+/**
+ * Item fields output by the feed input node, and their value types; Field names match the item records taken by the feed output node
+ */
+const FEED_INPUT_FIELDS: { [key in keyof ParsedFeedItem]-?: ValueType.Text | ValueType.URL | ValueType.HTML | ValueType.Date } = {
+    title: ValueType.Text,
+    link: ValueType.URL,
+    description: ValueType.HTML,
+    author: ValueType.Text,
+    date: ValueType.Date,
+    guid: ValueType.Text
+};
+
+const feedInputNode: NodeDefinition = {
+    type: "feedInputNode",
+    displayName: "Feed Input",
+    category: "Input",
+    configSchema: {
+        url: {type: "url", label: "URL", nullable: true, placeholder: "https://example.com/feed.xml"}
+    },
+    handles: {
+        source: [
+            {id: "title-out", label: "Title", group: "feed", types: [ValueType.Text]},
+            {id: "link-out", label: "Link", group: "feed", types: [ValueType.URL]},
+            {id: "description-out", label: "Description", group: "feed", types: [ValueType.Text]},
+            {id: "items-out", label: "Items", group: "item", types: [ValueType.Record]},
+            {id: "item-title-out", label: "Title", group: "item", types: [ValueType.Text]},
+            {id: "item-link-out", label: "Link", group: "item", types: [ValueType.URL]},
+            {id: "item-description-out", label: "Description", group: "item", types: [ValueType.HTML]},
+            {id: "item-author-out", label: "Author", group: "item", types: [ValueType.Text]},
+            {id: "item-date-out", label: "Date", group: "item", types: [ValueType.Date]},
+            {id: "item-guid-out", label: "GUID", group: "item", types: [ValueType.Text]}
+        ],
+        target: []
+    },
+    defaultConfig: {url: null} as FeedInputConfig,
+    createMapper: async (nodeID, config, context) => {
+        const {url} = config as FeedInputConfig;
+        if (url == null) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+        const message = await context.fetch(nodeID, url);
+        if (message.kind != PipeState.Ok) {
+            return message;
+        }
+
+        let feed: ParsedFeed;
+        try {
+            feed = parseFeed(message.value, url, context.dom);
+        } catch (error) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Err,
+                error: (error as Error).message
+            };
+        }
+
+        let output: PipeData = {
+            "title-out": typedValues(ValueType.Text, feed.title != undefined ? [feed.title] : []),
+            "link-out": typedValues(ValueType.URL, feed.link != undefined ? [feed.link] : []),
+            "description-out": typedValues(ValueType.Text, feed.description != undefined ? [feed.description] : []),
+            "items-out": feed.items.map((item) => ({
+                type: ValueType.Record,
+                value: Object.fromEntries(Object.entries(FEED_INPUT_FIELDS).map(([field, type]) => {
+                    const value = item[field as keyof ParsedFeedItem];
+                    return [field, typedValues(type, value != undefined ? [value] : [])];
+                }))
+            }))
+        };
+        // Separate item lists leave out items lacking the field, as an empty value is not a valid date or URL; They only line up if every item has the field, items-out keeps the fields of each item together
+        for (let [field, type] of Object.entries(FEED_INPUT_FIELDS)) {
+            output["item-" + field + "-out"] = typedValues(type, feed.items.flatMap((item) => item[field as keyof ParsedFeedItem] ?? []));
+        }
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: (_input: PipeData) => output
+        };
+    }
+}
+
+/**
+ * Maximum number of URLs whose fetch result a fetch node keeps
+ */
+const FETCH_CACHE_SIZE = 256;
+
+const fetchNode: NodeDefinition = {
+    type: "fetchNode",
+    displayName: "Fetch",
+    category: "Input",
+    configSchema: {
+        concurrency: {type: "number", label: "Parallel", min: 1, max: 16}
+    },
+    handles: {
+        source: [
+            {id: "data-out", label: "Body", types: [ValueType.Text]},
+            {id: "url-out", label: "URL", types: [ValueType.URL]},
+            {id: "error-out", label: "Errors", types: [ValueType.Text]}
+        ],
+        target: [{id: "url-in", label: "URL", types: [ValueType.URL]}]
+    },
+    defaultConfig: {concurrency: 4} as FetchConfig,
+    // Fetching many URLs takes a while
+    timeBudget: 120000,
+    createMapper: (nodeID, config, context) => {
+        const {concurrency} = config as FetchConfig;
+        if (!(concurrency >= 1)) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+
+        // Successful fetch result per URL, kept across evaluations so that only new URLs are fetched; Least recently used first
+        const results = new Map<string, PipeMessage<string>>();
+
+        /**
+         * Fetch a single URL, or reuse the result of an earlier successful fetch
+         *
+         * Failed fetches are not kept, so that they are retried by the next evaluation.
+         * @param url URL to fetch
+         * @param signal Aborts the fetch, rejecting with the signal's reason
+         */
+        async function fetchURL(url: string, signal: AbortSignal): Promise<PipeMessage<string>> {
+            if (!/^https?:\/\/.+/.test(url)) {
+                return {fromNode: nodeID, kind: PipeState.Err, error: "Not an HTTP(S) URL"};
+            }
+            let result = results.get(url);
+            if (result != undefined) {
+                results.delete(url);
+            } else {
+                result = await context.fetch(nodeID, url, signal);
+                if (result.kind != PipeState.Ok) {
+                    return result;
+                }
+            }
+            results.set(url, result);
+            while (results.size > FETCH_CACHE_SIZE) {
+                results.delete(results.keys().next().value as string);
+            }
+            return result;
+        }
+
+        async function map(input: PipeData, signal: AbortSignal): Promise<PipeData> {
+            const urls = input["url-in"].map(valueText);
+
+            // URLs are fetched at most {@link FetchConfig.concurrency} at a time; Aborting stops new fetches from starting
+            let fetched = new Map<string, PipeMessage<string>>();
+            let queue = Array.from(new Set(urls));
+            const total = queue.length;
+            context.progress?.(0);
+            async function worker() {
+                for (let url = queue.shift(); url != undefined; url = queue.shift()) {
+                    if (signal.aborted) {
+                        throw signal.reason;
+                    }
+                    fetched.set(url, await fetchURL(url, signal));
+                    context.progress?.(fetched.size / total);
+                }
+            }
+            try {
+                await Promise.all(Array.from({length: Math.min(concurrency, total)}, worker));
+            } finally {
+                context.progress?.(null);
+            }
+
+            // Failed fetches are left out of the body output; URL output stays aligned with the bodies
+            let bodies = [] as string[];
+            let fetchedURLs = [] as string[];
+            let errors = [] as string[];
+            for (let url of urls) {
+                const result = fetched.get(url) as PipeMessage<string>;
+                switch (result.kind) {
+                    case PipeState.Ok:
+                        bodies.push(result.value);
+                        fetchedURLs.push(url);
+                        break;
+                    case PipeState.Err:
+                        errors.push(url + ": " + result.error);
+                        break;
+                    case PipeState.BadConfig:
+                        errors.push(url + ": Invalid request");
+                        break;
+                    case PipeState.Pending:
+                        errors.push(url + ": Fetch did not complete");
+                        break;
+                }
+            }
+            return {
+                "data-out": typedValues(ValueType.Text, bodies),
+                "url-out": typedValues(ValueType.URL, fetchedURLs),
+                "error-out": typedValues(ValueType.Text, errors)
+            };
+        }
+
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: map
+        };
+    }
+}
+
+const textInputNode: NodeDefinition = {
+    type: "textInputNode",
+    displayName: "Text Input",
+    category: "Input",
+    configSchema: {
+        text: {type: "string", label: "Text", nullable: true, multiline: true}
+    },
+    handles: {
+        source: [{id: "text-out", label: "Text", types: [ValueType.Text]}],
+        target: []
+    },
+    defaultConfig: {text: null} as TextInputConfig,
+    createMapper: (nodeID, config) => {
+        const {text} = config as TextInputConfig;
+        if (text != null) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Ok,
+                value: () => ({"text-out": typedValues(ValueType.Text, [text])})
+            };
+        } else {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+    }
+}
+
+const regexNode: NodeDefinition = {
+    type: "regexNode",
+    displayName: "Regex",
+    category: "Extract",
+    configSchema: {
+        regex: {type: "regex", label: "Regex", nullable: true},
+        ignorecase: {type: "boolean", label: "Ignore Case"},
+        multiline: {type: "boolean", label: "Multi-line"},
+        dotall: {type: "boolean", label: "Dot matches newline"},
+        unicode: {type: "boolean", label: "Unicode"}
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT", types: [ValueType.Text]}],
+        target: [{id: "data-in", label: "IN", types: [ValueType.Text]}]
+    },
+    defaultConfig: {
+        regex: null,
+        ignorecase: false,
+        multiline: false,
+        dotall: false,
+        unicode: false
+    } as RegexConfig,
+    workerSafe: true,
+    createMapper: (nodeID, config) => {
+        const regexConfig = config as RegexConfig;
+        if (regexConfig.regex != null) {
+            try {
+                let flags = "g"
+                    + (regexConfig.ignorecase ? "i" : "")
+                    + (regexConfig.multiline ? "m" : "")
+                    + (regexConfig.dotall ? "s" : "")
+                    + (regexConfig.unicode ? "u" : "");
+
+                const regexp = new RegExp(regexConfig.regex, flags);
+
+                function map(input: PipeData): PipeData {
+                    const values = input["data-in"].map(valueText);
+                    const output = values.flatMap((value) => {
+                        let out = [];
+                        for (let match of value.matchAll(regexp)) {
+                            if (match.length > 1) { // If using captures, skip 0th "global" capture group
+                                out.push(...match.slice(1))
+                            } else { // No capture groups; Push the global match
+                                out.push(...match);
+                            }
+                        }
+                        return out;
+                    });
+                    return {"data-out": typedValues(ValueType.Text, output)}
+                }
+
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Ok,
+                    value: map
+                };
+            } catch (error) {
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Err,
+                    error: (error as Error).message
+                };
+            }
+        } else {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+    }
+}
+
+/**
+ * Check if an XPath expression is syntactically valid
+ * @param xpath XPath expression
+ * @param dom DOM implementation to parse the expression with
+ * @returns Error message if the expression is invalid, null otherwise
+ */
+function checkXPath(xpath: string, dom: MapperDOM): string | null {
+    try {
+        dom.document.createExpression(xpath);
+        return null;
+    } catch (e) {
+        return "Invalid XPath";
+    }
+}
+
+const xpathNode: NodeDefinition = {
+    type: "xpathNode",
+    displayName: "XPath",
+    category: "Extract",
+    configSchema: {
+        xpath: {type: "string", label: "XPath", nullable: true, validate: checkXPath},
+        parseMode: {type: "enum", label: "Parse as", options: Object.values(ParseMode)}
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT", types: [ValueType.HTML, ValueType.XML, ValueType.Text, ValueType.Number]}],
+        target: [{id: "data-in", label: "IN", types: [ValueType.HTML, ValueType.XML]}]
+    },
+    defaultConfig: {xpath: null, parseMode: ParseMode.HTML} as XPathConfig,
+    createMapper: (nodeID, config, context) => {
+        const {xpath: xpathString, parseMode} = config as XPathConfig;
+        const {DOMParser, XPathResult, Element, Text} = context.dom;
+        if (xpathString != null) {
+            try {
+                function map(input: PipeData): PipeData {
+                    const values = input["data-in"].map(valueText);
+                    let output = [] as TypedValue[];
+                    let parser = new DOMParser();
+
+                    for (let value of values) {
+                        try {
+                            let document = parser.parseFromString(value, parseMode == ParseMode.HTML ? "text/html" : "text/xml");
+                            let xPathResult = document.evaluate(xpathString as string, document, null, XPathResult.ANY_TYPE);
+
+                            switch (xPathResult.resultType) {
+                                case XPathResult.NUMBER_TYPE:
+                                    output.push({type: ValueType.Number, value: xPathResult.numberValue})
+                                    break;
+                                case XPathResult.STRING_TYPE:
+                                    output.push({type: ValueType.Text, value: xPathResult.stringValue})
+                                    break;
+                                case XPathResult.BOOLEAN_TYPE:
+                                    output.push({type: ValueType.Text, value: xPathResult.booleanValue.toString()})
+                                    break;
+                                case XPathResult.UNORDERED_NODE_ITERATOR_TYPE:
+                                    let node = xPathResult.iterateNext();
+                                    while (node) {
+                                        if (node instanceof Element) {
+                                            output.push({type: parseMode == ParseMode.HTML ? ValueType.HTML : ValueType.XML, value: node.outerHTML});
+                                        } else if (node instanceof Text) {
+                                            output.push({type: ValueType.Text, value: node.wholeText.trim()});
+                                        }
+                                        node = xPathResult.iterateNext();
+                                    }
+                                    break;
+                            }
+                        } catch (e) {
+                            // Silently drop input
+                        }
+                    }
+                    return {"data-out": output}
+                }
+
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Ok,
+                    value: map
+                };
+            } catch (error) {
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Err,
+                    error: (error as Error).message
+                };
+            }
+        } else {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+    }
+}
+
+/**
+ * Attributes containing URLs, which are resolved against the base URL input of the CSS selector and records nodes
+ */
+const URL_ATTRIBUTES = ["action", "background", "cite", "data", "formaction", "href", "poster", "src"];
+
+/**
+ * Base URL for one of the input documents; Each document has its own base URL if one is provided per document, otherwise the first base URL applies to all documents
+ * @param baseURLs Base URL input, if any
+ * @param documentCount Number of input documents
+ * @param index Index of the document
+ */
+function documentBaseURL(baseURLs: string[] | undefined, documentCount: number, index: number): string | undefined {
+    return baseURLs?.length == documentCount ? baseURLs[index] : baseURLs?.[0];
+}
+
+/**
+ * Read an attribute of an element; URL attributes are resolved against the base URL, if any
+ * @param element Element to read from
+ * @param attribute Name of the attribute
+ * @param baseURL Base URL to resolve URL attributes against
+ * @returns Attribute value, or null if the element does not have this attribute
+ * @throws MapperError if a URL attribute cannot be resolved
+ */
+function attributeValue(element: Element, attribute: string, baseURL?: string): TypedValue | null {
+    const value = element.getAttribute(attribute);
+    if (value == null) {
+        return null;
+    }
+    if (baseURL != undefined && URL_ATTRIBUTES.includes(attribute.toLowerCase())) {
+        try {
+            return {type: ValueType.URL, value: new URL(value, baseURL).href};
+        } catch (e) {
+            throw new MapperError("Could not resolve " + value + " against base URL " + baseURL);
+        }
+    } else {
+        return {type: ValueType.Text, value: value};
+    }
+}
+
+/**
+ * Check if a CSS selector is syntactically valid
+ * @param selector CSS selector
+ * @param dom DOM implementation to parse the selector with
+ * @returns Error message if the selector is invalid, null otherwise
+ */
+function checkSelector(selector: string, dom: MapperDOM): string | null {
+    try {
+        dom.document.createDocumentFragment().querySelector(selector);
+        return null;
+    } catch (e) {
+        return "Invalid CSS selector";
+    }
+}
+
+const selectorNode: NodeDefinition = {
+    type: "selectorNode",
+    displayName: "CSS Selector",
+    category: "Extract",
+    configSchema: {
+        selector: {type: "string", label: "Selector", nullable: true, validate: checkSelector},
+        output: {type: "enum", label: "Output", options: Object.values(SelectorOutput)},
+        attribute: {
+            type: "string",
+            label: "Attribute",
+            nullable: true,
+            placeholder: "Attribute, e.g. href",
+            visible: (config) => config.output == SelectorOutput.Attribute,
+            validate: (value) => /\s/.test(value) ? "Attribute names cannot contain whitespace" : null
+        }
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT", types: [ValueType.Text, ValueType.HTML, ValueType.URL]}],
+        target: [
+            {id: "data-in", label: "IN", types: [ValueType.HTML]},
+            {id: "base-in", label: "Base URL", optional: true, types: [ValueType.URL]}
+        ]
+    },
+    defaultConfig: {selector: null, output: SelectorOutput.Text, attribute: null} as SelectorConfig,
+    createMapper: (nodeID, config, context) => {
+        const {selector, output: outputMode, attribute} = config as SelectorConfig;
+        const {DOMParser} = context.dom;
+        if (selector == null || (outputMode == SelectorOutput.Attribute && attribute == null)) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+
+        try {
+            // Throws if the selector is invalid
+            context.dom.document.createDocumentFragment().querySelector(selector);
+        } catch (error) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Err,
+                error: (error as Error).message
+            };
+        }
+
+        function map(input: PipeData): PipeData {
+            const values = input["data-in"].map(valueText);
+            const baseURLs = input["base-in"]?.map(valueText);
+            let output = [] as TypedValue[];
+            let parser = new DOMParser();
+
+            for (let [index, value] of values.entries()) {
+                const baseURL = documentBaseURL(baseURLs, values.length, index);
+
+                let document = parser.parseFromString(value, "text/html");
+                for (let element of document.querySelectorAll(selector as string)) {
+                    switch (outputMode) {
+                        case SelectorOutput.Text:
+                            output.push({type: ValueType.Text, value: (element.textContent ?? "").trim()});
+                            break;
+                        case SelectorOutput.InnerHTML:
+                            output.push({type: ValueType.HTML, value: element.innerHTML});
+                            break;
+                        case SelectorOutput.OuterHTML:
+                            output.push({type: ValueType.HTML, value: element.outerHTML});
+                            break;
+                        case SelectorOutput.Attribute: {
+                            const value = attributeValue(element, attribute as string, baseURL);
+                            if (value != null) {    // Skip elements without this attribute
+                                output.push(value);
+                            }
+                            break;
+                        }
+                    }
+                }
+            }
+            return {"data-out": output}
+        }
+
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: map
+        };
+    }
+}
+
+/**
+ * Field of the records created by the records node
+ */
+export type RecordField = {
+    name: string,
+    /**
+     * CSS selector, relative to the record's element; Empty for the record's element itself
+     */
+    selector: string,
+    /**
+     * Attribute to read, "html" for the inner HTML, or null for the text content
+     */
+    attribute: string | null
+}
+
+/**
+ * Parse the field definitions of the records node
+ *
+ * Fields are defined one per line as `name: selector`, optionally followed by `@attribute` to read an attribute instead of the text content, or `@html` for the inner HTML.
+ * E.g. `link: a.item-link @href`. An empty selector refers to the record's element itself. Empty lines are ignored.
+ *
+ * Selectors are not validated, as that requires a DOM implementation.
+ *
+ * @param text Field definitions
+ * @throws Error if a line is not a valid field definition, or a field is defined twice
+ */
+export function parseRecordFields(text: string): RecordField[] {
+    let fields = [] as RecordField[];
+    for (let [index, line] of text.split("\n").entries()) {
+        if (line.trim().length == 0) {
+            continue;
+        }
+        const match = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*(?:@([\w:-]+))?\s*$/);
+        if (match == null) {
+            throw new Error("Line " + (index + 1) + " is not a field definition, expected name: selector");
+        }
+        const [, name, selector, attribute] = match;
+        if (fields.some((field) => field.name == name)) {
+            throw new Error("Field " + name + " is defined twice");
+        }
+        fields.push({name: name, selector: selector, attribute: attribute ?? null});
+    }
+    if (fields.length == 0) {
+        throw new Error("No fields defined");
+    }
+    return fields;
+}
+
+/**
+ * Check if the field definitions of the records node are valid, including their selectors
+ * @param text Field definitions, see {@link parseRecordFields}
+ * @param dom DOM implementation to parse the selectors with
+ * @returns Error message if the definitions are invalid, null otherwise
+ */
+function checkRecordFields(text: string, dom: MapperDOM): string | null {
+    try {
+        for (let field of parseRecordFields(text)) {
+            if (field.selector.length > 0 && checkSelector(field.selector, dom) != null) {
+                return "Invalid CSS selector for field " + field.name;
+            }
+        }
+        return null;
+    } catch (e) {
+        return (e as Error).message;
+    }
+}
+
+const recordsNode: NodeDefinition = {
+    type: "recordsNode",
+    displayName: "Records",
+    category: "Extract",
+    configSchema: {
+        itemSelector: {type: "string", label: "Item selector", nullable: true, validate: checkSelector},
+        fields: {type: "string", label: "Fields", nullable: true, multiline: true, placeholder: "title: .title\nlink: a @href", validate: checkRecordFields}
+    },
+    handles: {
+        source: [{id: "records-out", label: "Records", types: [ValueType.Record]}],
+        target: [
+            {id: "data-in", label: "IN", types: [ValueType.HTML]},
+            {id: "base-in", label: "Base URL", optional: true, types: [ValueType.URL]}
+        ]
+    },
+    defaultConfig: {itemSelector: null, fields: null} as RecordsConfig,
+    createMapper: (nodeID, config, context) => {
+        const {itemSelector, fields: fieldsText} = config as RecordsConfig;
+        const {DOMParser} = context.dom;
+        if (itemSelector == null || fieldsText == null) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+
+        let fields: RecordField[];
+        try {
+            fields = parseRecordFields(fieldsText);
+            // Throws if a selector is invalid
+            const fragment = context.dom.document.createDocumentFragment();
+            fragment.querySelector(itemSelector);
+            for (let field of fields) {
+                if (field.selector.length > 0) {
+                    fragment.querySelector(field.selector);
+                }
+            }
+        } catch (error) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Err,
+                error: (error as Error).message
+            };
+        }
+
+        function map(input: PipeData): PipeData {
+            const values = input["data-in"].map(valueText);
+            const baseURLs = input["base-in"]?.map(valueText);
+            let output = [] as TypedValue[];
+            let parser = new DOMParser();
+
+            for (let [index, value] of values.entries()) {
+                const baseURL = documentBaseURL(baseURLs, values.length, index);
+
+                let document = parser.parseFromString(value, "text/html");
+                for (let item of document.querySelectorAll(itemSelector as string)) {
+                    // Fields are only matched within the record's element, so they cannot come from a different record
+                    let record = {} as RecordFields;
+                    for (let field of fields) {
+                        const elements = field.selector.length > 0 ? Array.from(item.querySelectorAll(field.selector)) : [item];
+                        record[field.name] = elements.flatMap((element) => {
+                            if (field.attribute == null) {
+                                return [{type: ValueType.Text, value: (element.textContent ?? "").trim()}];
+                            } else if (field.attribute == "html") {
+                                return [{type: ValueType.HTML, value: element.innerHTML}];
+                            } else {
+                                return attributeValue(element, field.attribute, baseURL) ?? [];
+                            }
+                        });
+                    }
+                    output.push({type: ValueType.Record, value: record});
+                }
+            }
+            return {"records-out": output}
+        }
+
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: map
+        };
+    }
+}
+
+/**
+ * Check if a JMESPath expression is syntactically valid
+ * @param query JMESPath expression
+ * @returns Error message if the expression is invalid, null otherwise
+ */
+export function checkJMESPath(query: string): string | null {
+    try {
+        search({}, query);
+        return null;
+    } catch (error) {
+        // Evaluating against an empty object may also raise type errors, these do not indicate invalid syntax
+        if ((error as Error).name == "ParserError" || (error as Error).name == "LexerError") {
+            return (error as Error).message;
+        } else {
+            return null;
+        }
+    }
+}
+
+const jsonQueryNode: NodeDefinition = {
+    type: "jsonQueryNode",
+    displayName: "JSON Query",
+    category: "Extract",
+    configSchema: {
+        query: {type: "string", label: "JMESPath", nullable: true, validate: checkJMESPath},
+        splitArrays: {type: "boolean", label: "Split arrays"}
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT", types: [ValueType.JSON]}],
+        target: [{id: "data-in", label: "IN", types: [ValueType.JSON]}]
+    },
+    defaultConfig: {query: null, splitArrays: true} as JSONQueryConfig,
+    workerSafe: true,
+    createMapper: (nodeID, config) => {
+        const {query, splitArrays} = config as JSONQueryConfig;
+        if (query != null) {
+            const syntaxError = checkJMESPath(query);
+            if (syntaxError != null) {
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Err,
+                    error: "Invalid JMESPath: " + syntaxError
+                };
+            }
+
+            function map(input: PipeData): PipeData {
+                const values = input["data-in"].map((value) => value.value as string);
+                let output = [] as string[];
+
+                for (let [index, value] of values.entries()) {
+                    let json;
+                    try {
+                        json = JSON.parse(value);
+                    } catch (e) {
+                        throw new MapperError("Input " + (index + 1) + " is not valid JSON: " + (e as Error).message);
+                    }
+
+                    let result;
+                    try {
+                        result = search(json, query as string);
+                    } catch (e) {
+                        throw new MapperError("Query failed on input " + (index + 1) + ": " + (e as Error).message);
+                    }
+
+                    // Null indicates no match
+                    if (splitArrays && Array.isArray(result)) {
+                        output.push(...result.filter((element) => element !== null).map((element) => JSON.stringify(element)));
+                    } else if (result !== null) {
+                        output.push(JSON.stringify(result));
+                    }
+                }
+                return {"data-out": typedValues(ValueType.JSON, output)}
+            }
+
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Ok,
+                value: map
+            };
+        } else {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+    }
+}
+
+/**
+ * Maximum number of inputs of the merge node
+ */
+const MAX_MERGE_INPUTS = 8;
+
+const mergeNode: NodeDefinition = {
+    type: "mergeNode",
+    displayName: "Merge",
+    category: "Transform",
+    configSchema: {
+        inputs: {type: "number", label: "Inputs", min: 2, max: MAX_MERGE_INPUTS},
+        combine: {type: "enum", label: "Combine", options: Object.values(CombineMode)},
+        zipFields: {
+            type: "string", label: "Fields", nullable: true, placeholder: "Fields, e.g. title, link",
+            visible: (config) => config.combine == CombineMode.Zip
+        },
+        dedupe: {type: "boolean", label: "Remove duplicates"},
+        sort: {type: "enum", label: "Sort", options: Object.values(SortOrder)},
+        key: {
+            type: "string", label: "Key field", nullable: true, placeholder: "Key field, e.g. link",
+            visible: (config) => config.dedupe == true || config.sort != SortOrder.None
+        },
+        limit: {type: "number", label: "Keep at most (0: all)", min: 0}
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT"}],
+        target: [{id: "in-1", label: "IN 1"}, {id: "in-2", label: "IN 2", optional: true}]
+    },
+    defaultConfig: {
+        inputs: 2,
+        combine: CombineMode.Concatenate,
+        zipFields: null,
+        dedupe: false,
+        key: null,
+        sort: SortOrder.None,
+        limit: 0
+    } as MergeConfig,
+    // Inputs after the first are optional, so that sources can be added one at a time
+    configHandles: (config) => {
+        const {inputs} = config as MergeConfig;
+        const count = Math.min(Math.max(Math.floor(inputs), 2), MAX_MERGE_INPUTS);
+        return {
+            source: [{id: "data-out", label: "OUT"}],
+            target: Array.from({length: count}, (_, index) => ({id: "in-" + (index + 1), label: "IN " + (index + 1), optional: index > 0}))
+        };
+    },
+    workerSafe: true,
+    createMapper: (nodeID, config) => {
+        const {inputs, combine, zipFields, dedupe, key, sort, limit} = config as MergeConfig;
+        const zipNames = (zipFields ?? "").split(",").map((name) => name.trim());
+
+        /**
+         * Value that identifies and orders a value; The key field of records, or the value itself
+         */
+        function keyValue(value: TypedValue): TypedValue | undefined {
+            if (key != null && value.type == ValueType.Record) {
+                return value.value[key]?.[0];
+            }
+            return value;
+        }
+
+        /**
+         * Date of a value for sorting, as ISO 8601 string; Undefined if its key is not a date
+         */
+        function sortDate(value: TypedValue): string | undefined {
+            const keyed = keyValue(value);
+            const converted = keyed != undefined ? convertValue(keyed, [ValueType.Date]) : null;
+            return converted != null ? valueText(converted) : undefined;
+        }
+
+        function map(input: PipeData): PipeData {
+            const lists = Array.from({length: inputs}, (_, index) => input["in-" + (index + 1)] ?? []);
+
+            let values = [] as TypedValue[];
+            switch (combine) {
+                case CombineMode.Concatenate:
+                    values = lists.flat();
+                    break;
+                case CombineMode.Interleave:
+                    for (let index = 0; index < Math.max(...lists.map((list) => list.length)); index++) {
+                        values.push(...lists.filter((list) => index < list.length).map((list) => list[index]));
+                    }
+                    break;
+                case CombineMode.Zip:
+                    for (let index = 0; index < Math.max(...lists.map((list) => list.length)); index++) {
+                        let fields = {} as RecordFields;
+                        lists.forEach((list, inputIndex) => {
+                            const value = list[index];
+                            if (value?.type == ValueType.Record) {
+                                Object.assign(fields, value.value);
+                            } else if (value != undefined) {
+                                fields[zipNames[inputIndex] || String(inputIndex + 1)] = [value];
+                            }
+                        });
+                        values.push({type: ValueType.Record, value: fields});
+                    }
+                    break;
+            }
+
+            if (dedupe) {
+                // Values without a key cannot be compared, so they are all kept
+                const seen = new Set<string>();
+                values = values.filter((value) => {
+                    const keyed = keyValue(value);
+                    if (keyed == undefined) {
+                        return true;
+                    }
+                    const keyText = keyed.type + ":" + valueText(keyed);
+                    if (seen.has(keyText)) {
+                        return false;
+                    }
+                    seen.add(keyText);
+                    return true;
+                });
+            }
+
+            // Sorting is stable, values without a date or key keep their order after all other values
+            switch (sort) {
+                case SortOrder.Newest:
+                case SortOrder.Oldest: {
+                    const direction = sort == SortOrder.Newest ? -1 : 1;
+                    values = values.map((value) => [value, sortDate(value)] as [TypedValue, string | undefined])
+                        .sort(([, a], [, b]) => a == undefined || b == undefined ? (a == undefined ? 1 : 0) - (b == undefined ? 1 : 0) : direction * a.localeCompare(b))
+                        .map(([value]) => value);
+                    break;
+                }
+                case SortOrder.Ascending:
+                case SortOrder.Descending: {
+                    const direction = sort == SortOrder.Ascending ? 1 : -1;
+                    values = values.map((value) => [value, keyValue(value)] as [TypedValue, TypedValue | undefined])
+                        .sort(([, a], [, b]) => a == undefined || b == undefined ? (a == undefined ? 1 : 0) - (b == undefined ? 1 : 0) : direction * valueText(a).localeCompare(valueText(b)))
+                        .map(([value]) => value);
+                    break;
+                }
+            }
+
+            return {"data-out": limit > 0 ? values.slice(0, limit) : values};
+        }
+
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: map
+        };
+    }
+}
+
+/**
+ * Maximum number of companion lists of the filter node
+ */
+const MAX_FILTER_COMPANIONS = 6;
+
+const filterNode: NodeDefinition = {
+    type: "filterNode",
+    displayName: "Filter",
+    category: "Transform",
+    configSchema: {
+        condition: {
+            type: "string", label: "Condition", nullable: true, multiline: true,
+            placeholder: "title contains \"release\" and not date < 2024-01-01", validate: checkCondition
+        },
+        mode: {type: "enum", label: "Mode", options: Object.values(FilterMode)},
+        companions: {type: "number", label: "Companion lists", min: 0, max: MAX_FILTER_COMPANIONS}
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT"}],
+        target: [{id: "data-in", label: "IN"}]
+    },
+    defaultConfig: {condition: null, mode: FilterMode.Keep, companions: 0} as FilterConfig,
+    // Each companion list has an input and an output, e.g. the links of filtered titles
+    configHandles: (config) => {
+        const {companions} = config as FilterConfig;
+        const count = Math.min(Math.max(Math.floor(companions), 0), MAX_FILTER_COMPANIONS);
+        return {
+            source: [
+                {id: "data-out", label: "OUT"},
+                ...Array.from({length: count}, (_, index) => ({id: "with-" + (index + 1) + "-out", label: "List " + (index + 1), group: "with"}))
+            ],
+            target: [
+                {id: "data-in", label: "IN"},
+                ...Array.from({length: count}, (_, index) => ({id: "with-" + (index + 1), label: "List " + (index + 1), group: "with", optional: true}))
+            ]
+        };
+    },
+    workerSafe: true,
+    createMapper: (nodeID, config) => {
+        const {condition: conditionText, mode, companions} = config as FilterConfig;
+        if (conditionText == null) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+        const condition = parseCondition(conditionText);
+
+        function map(input: PipeData): PipeData {
+            const values = input["data-in"];
+            const keep = values.map((value) => testCondition(condition, value) == (mode == FilterMode.Keep));
+
+            let output: PipeData = {"data-out": values.filter((_, index) => keep[index])};
+            // Companion entries are matched to input values by index; Entries beyond the input have no value to decide on, and are dropped
+            for (let companion = 1; companion <= companions; companion++) {
+                output["with-" + companion + "-out"] = (input["with-" + companion] ?? []).filter((_, index) => keep[index] ?? false);
+            }
+            return output;
+        }
+
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: map
+        };
+    }
+}
+
+/**
+ * Single item of a generated feed
+ */
+type FeedItem = {
+    title?: string,
+    link?: string,
+    description?: string,
+    /**
+     * Type of the description, HTML unless the description is plain text
+     */
+    descriptionType?: ValueType.HTML | ValueType.Text,
+    author?: string,
+    /**
+     * Publication date, as ISO 8601 string
+     */
+    date?: string,
+    /**
+     * Unique identifier, RSS guid and Atom/JSON Feed id; Falls back to the link
+     */
+    guid?: string,
+    categories?: string[],
+    enclosure?: string,
+    enclosureType?: string,
+    enclosureLength?: string,
+    /**
+     * Full HTML content, RSS content:encoded; The description is then a summary
+     */
+    content?: string
+}
+
+/**
+ * Fields of a feed item that hold item data, as opposed to describing other fields
+ */
+type FeedItemField = Exclude<keyof FeedItem, "descriptionType">;
+
+/**
+ * Fields of item records taken by the feed output node, and the types they are converted to
+ */
+const FEED_ITEM_FIELDS: { [key in FeedItemField]-?: ValueType[] } = {
+    title: [ValueType.Text],
+    link: [ValueType.URL],
+    description: [ValueType.HTML, ValueType.Text],
+    author: [ValueType.Text],
+    date: [ValueType.Date],
+    guid: [ValueType.Text],
+    categories: [ValueType.Text],
+    enclosure: [ValueType.URL],
+    enclosureType: [ValueType.Text],
+    enclosureLength: [ValueType.Number],
+    content: [ValueType.HTML]
+};
+
+/**
+ * Separate item input handles of the feed output node, and the item fields they provide
+ */
+const FEED_ITEM_HANDLES: { [key: string]: FeedItemField } = {
+    "item-title": "title",
+    "item-link": "link",
+    "item-description": "description",
+    "item-author": "author",
+    "item-date": "date",
+    "item-guid": "guid",
+    "item-category": "categories",
+    "item-enclosure": "enclosure",
+    "item-enclosure-type": "enclosureType",
+    "item-enclosure-length": "enclosureLength",
+    "item-content": "content"
+};
+
+/**
+ * Format a date for RSS, as RFC 822 date-time
+ * @param date Date as ISO 8601 string, see {@link ValueType.Date}
+ */
+function rfc822Date(date: string): string {
+    // toUTCString gives RFC 1123 format, which is RFC 822 with four-digit years as RSS recommends
+    return new Date(date).toUTCString();
+}
+
+/**
+ * Format a date for Atom and JSON Feed, as RFC 3339 date-time
+ * @param date Date as ISO 8601 string, see {@link ValueType.Date}
+ */
+function rfc3339Date(date: string): string {
+    return new Date(date).toISOString();
+}
+
+const feedOutputNode: NodeDefinition = {
+    type: "feedOutputNode",
+    displayName: "Feed Output",
+    category: "Output",
+    internal: true,
+    configSchema: {
+        feedType: {type: "enum", label: "Feed type", options: Object.values(FeedType)}
+    },
+    handles: {
+        source: [{id: "feed-out", label: "Feed", types: [ValueType.XML, ValueType.JSON]}],
+        target: [
+            {id: "title", label: "Title", group: "feed", types: [ValueType.Text]},
+            {id: "link", label: "Link", group: "feed", types: [ValueType.URL]},
+            {id: "description", label: "Description", group: "feed", types: [ValueType.Text]},
+            {id: "language", label: "Language", group: "feed", optional: true, types: [ValueType.Text]},
+            {id: "image", label: "Image", group: "feed", optional: true, types: [ValueType.URL]},
+            {id: "items", label: "Items", group: "item", optional: true, types: [ValueType.Record]},
+            {id: "item-title", label: "Title", group: "item", optional: true, types: [ValueType.Text]},
+            {id: "item-link", label: "Link", group: "item", optional: true, types: [ValueType.URL]},
+            {id: "item-description", label: "Description", group: "item", optional: true, types: [ValueType.HTML, ValueType.Text]},
+            {id: "item-author", label: "Author", group: "item", optional: true, types: [ValueType.Text]},
+            {id: "item-date", label: "Date", group: "item", optional: true, types: [ValueType.Date]},
+            {id: "item-guid", label: "GUID", group: "item", optional: true, types: [ValueType.Text]},
+            {id: "item-category", label: "Category", group: "item", optional: true, types: [ValueType.Text]},
+            {id: "item-enclosure", label: "Enclosure", group: "item", optional: true, types: [ValueType.URL]},
+            {id: "item-enclosure-type", label: "Enclosure type", group: "item", optional: true, types: [ValueType.Text]},
+            {id: "item-enclosure-length", label: "Enclosure length", group: "item", optional: true, types: [ValueType.Number]},
+            {id: "item-content", label: "Content", group: "item", optional: true, types: [ValueType.HTML]},
+        ]
+    },
+    defaultConfig: {feedType: FeedType.RSS} as FeedOutputConfig,
+    createMapper: (nodeID, config, context) => {
+        const {feedType} = config as FeedOutputConfig;
+        const {XMLSerializer, document} = context.dom;
+
+        /**
+         * Read feed items from records; Each record is one item, so its fields always belong together
+         */
+        function recordItems(records: TypedValue[]): FeedItem[] {
+            return records.map((record, index) => {
+                const fields = record.value as RecordFields;
+                let item = {} as FeedItem;
+                for (let [field, types] of Object.entries(FEED_ITEM_FIELDS) as [FeedItemField, ValueType[]][]) {
+                    // Items may have several categories, other fields take the first value
+                    const values = field == "categories" ? fields[field] ?? [] : fields[field]?.slice(0, 1) ?? [];
+                    const converted = values.map((value) => {
+                        const convertedValue = convertValue(value, types);
+                        if (convertedValue == null) {
+                            throw new MapperError("Field " + field + " of item " + (index + 1) + " is " + value.type + ", which cannot be converted to " + types.join(" or "));
+                        }
+                        return convertedValue;
+                    });
+                    const texts = converted.map(valueText);
+                    if (field == "categories") {
+                        item.categories = texts.length > 0 ? texts : undefined;
+                    } else if (texts.length > 0) {
+                        item[field] = texts[0];
+                        if (field == "description") {
+                            item.descriptionType = converted[0].type as ValueType.HTML | ValueType.Text;
+                        }
+                    }
+                }
+                return item;
+            });
+        }
+
+        /**
+         * Read feed items from separate lists per field, matched up by index
+         */
+        function listItems(lists: { [key in FeedItemField]?: TypedValue[] }): FeedItem[] {
+            let items = [] as FeedItem[];
+            let itemCount = Math.max(lists.title?.length ?? 0, lists.description?.length ?? 0);
+            for (let i = 0; i < itemCount; i++) {
+                let item = {} as FeedItem;
+                for (let [field, list] of Object.entries(lists) as [FeedItemField, TypedValue[]][]) {
+                    // Empty values mark absent fields, so that lists stay aligned
+                    const text = list[i] != undefined ? valueText(list[i]) || undefined : undefined;
+                    if (field == "categories") {
+                        // Separate lists hold a single category per item
+                        item.categories = text != undefined ? [text] : undefined;
+                    } else {
+                        item[field] = text;
+                        if (field == "description" && text != undefined) {
+                            item.descriptionType = list[i].type as ValueType.HTML | ValueType.Text;
+                        }
+                    }
+                }
+                items.push(item);
+            }
+            return items;
+        }
+
+        try {
+            function map(input: PipeData): PipeData {
+                let {
+                    "title": titleList,
+                    "link": linkList,
+                    "description": descriptionList,
+                    "language": languageList,
+                    "image": imageList
+                } = Object.fromEntries(Object.entries(input).map(([handle, values]) => [handle, values.map(valueText)])) as {
+                    title: string[],
+                    link: string[],
+                    description: string[],
+                    language?: string[],
+                    image?: string[]
+                };
+                let itemLists = {} as { [key in FeedItemField]?: TypedValue[] };
+                for (let [handle, field] of Object.entries(FEED_ITEM_HANDLES)) {
+                    if (input[handle] != undefined) {
+                        itemLists[field] = input[handle];
+                    }
+                }
+
+                let feedItems: FeedItem[];
+                if (input["items"] != undefined) {
+                    if (Object.keys(itemLists).length > 0) {
+                        throw new MapperError("Connect either Items, or the separate item inputs, not both");
+                    }
+                    feedItems = recordItems(input["items"]);
+                } else if (itemLists.title != undefined && itemLists.link != undefined) {
+                    feedItems = listItems(itemLists);
+                } else {
+                    throw new MapperError("Missing item input; Connect either Items, or Title and Link");
+                }
+
+                if (feedType == FeedType.JSONFeed) {
+                    const feed = {
+                        version: "https://jsonfeed.org/version/1.1",
+                        title: titleList[0],
+                        home_page_url: linkList[0],
+                        description: descriptionList[0],
+                        ...languageList != undefined ? {language: languageList[0]} : {},
+                        ...imageList != undefined ? {icon: imageList[0]} : {},
+                        items: feedItems.map((item, index) => ({
+                            // Items require an ID, which should not change when other items are added
+                            id: item.guid ?? item.link ?? String(index + 1),
+                            ...item.link != undefined ? {url: item.link} : {},
+                            ...item.title != undefined ? {title: item.title} : {},
+                            // Items require content, the description is the content unless there is separate content
+                            ...item.content == undefined && item.descriptionType == ValueType.Text
+                                ? {content_text: item.description}
+                                : {content_html: item.content ?? item.description ?? ""},
+                            ...item.content != undefined && item.description != undefined ? {summary: item.description} : {},
+                            ...item.date != undefined ? {date_published: rfc3339Date(item.date)} : {},
+                            ...item.author != undefined ? {authors: [{name: item.author}]} : {},
+                            ...item.categories != undefined ? {tags: item.categories} : {},
+                            ...item.enclosure != undefined ? {
+                                attachments: [{
+                                    url: item.enclosure,
+                                    mime_type: item.enclosureType ?? "application/octet-stream",
+                                    ...item.enclosureLength != undefined ? {size_in_bytes: Number(item.enclosureLength)} : {}
+                                }]
+                            } : {}
+                        }))
+                    };
+                    return {"feed-out": typedValues(ValueType.JSON, [JSON.stringify(feed, null, 2)])};
+                }
+
+                let [feedDocument, E] = newDocument(document.implementation);
+                switch (feedType) {
+                    case FeedType.Atom: {
+                        // Atom requires the feed's last update; Use the latest item date, or the generation time if there is none
+                        const dates = feedItems.filter((item) => item.date != undefined).map((item) => rfc3339Date(item.date as string)).sort();
+                        const updated = dates.length > 0 ? dates[dates.length - 1] : rfc3339Date(new Date().toISOString());
+
+                        let items = feedItems.map((item, index) => E("entry", [
+                            E("id", [], {}, item.guid ?? item.link ?? linkList[0] + "#item-" + (index + 1)),
+                            E("title", [], {type: "text"}, item.title ?? ""),
+                            E("updated", [], {}, item.date != undefined ? rfc3339Date(item.date) : updated),
+                            ...item.date != undefined ? [E("published", [], {}, rfc3339Date(item.date))] : [],
+                            ...item.link != undefined ? [E("link", [], {href: item.link})] : [],
+                            ...item.description != undefined ? [E("summary", [], {type: item.descriptionType == ValueType.Text ? "text" : "html"}, item.description)] : [],
+                            ...item.content != undefined ? [E("content", [], {type: "html"}, item.content)] : [],
+                            ...item.author != undefined ? [E("author", [E("name", [], {}, item.author)])] : [],
+                            ...(item.categories ?? []).map((category) => E("category", [], {term: category})),
+                            ...item.enclosure != undefined ? [E("link", [], {
+                                rel: "enclosure",
+                                href: item.enclosure,
+                                ...item.enclosureType != undefined ? {type: item.enclosureType} : {},
+                                ...item.enclosureLength != undefined ? {length: item.enclosureLength} : {}
+                            })] : [],
+                        ]));
+
+                        let rss = E(
+                            "feed",
+                            [
+                                E("id", [], {}, linkList[0]),
+                                E("title", [], {type: "text"}, titleList[0]),
+                                E("subtitle", [], {type: "text"}, descriptionList[0]),
+                                E("updated", [], {}, updated),
+                                E("link", [], {href: linkList[0]}),
+                                ...imageList != undefined ? [E("logo", [], {}, imageList[0])] : [],
+                                ...items
+                            ],
+                            {
+                                xmlns: "http://www.w3.org/2005/Atom",
+                                ...languageList != undefined ? {"xml:lang": languageList[0]} : {}
+                            }
+                        );
+                        feedDocument.appendChild(rss);
+                        break;
+                    }
+                    case FeedType.RSS: {
+                        let items = feedItems.map((item) => E("item", [
+                            ...item.title != undefined ? [E("title", [], {}, item.title)] : [],
+                            ...item.link != undefined ? [E("link", [], {}, item.link)] : [],
+                            ...item.description != undefined ? [E("description", [], {}, item.description)] : [],
+                            ...item.content != undefined ? [E("content:encoded", [], {}, item.content)] : [],
+                            ...item.author != undefined ? [E("author", [], {}, item.author)] : [],
+                            ...(item.categories ?? []).map((category) => E("category", [], {}, category)),
+                            ...item.enclosure != undefined ? [E("enclosure", [], {
+                                url: item.enclosure,
+                                // RSS requires all enclosure attributes
+                                length: item.enclosureLength ?? "0",
+                                type: item.enclosureType ?? "application/octet-stream"
+                            })] : [],
+                            // GUIDs other than the item's link are not assumed to be URLs
+                            ...item.guid != undefined ? [E("guid", [], item.guid != item.link ? {isPermaLink: "false"} : {}, item.guid)] : [],
+                            ...item.date != undefined ? [E("pubDate", [], {}, rfc822Date(item.date))] : [],
+                        ]));
+
+                        let rss = E("rss", [
+                            E("channel", [
+                                E("title", [], {}, titleList[0]),
+                                E("link", [], {}, linkList[0]),
+                                E("description", [], {}, descriptionList[0]),
+                                ...languageList != undefined ? [E("language", [], {}, languageList[0])] : [],
+                                ...imageList != undefined ? [E("image", [
+                                    E("url", [], {}, imageList[0]),
+                                    E("title", [], {}, titleList[0]),
+                                    E("link", [], {}, linkList[0])
+                                ])] : [],
+                                ...items
+                            ])
+                        ], {
+                            version: "2.0",
+                            "xmlns:content": "http://purl.org/rss/1.0/modules/content/"
+                        });
+                        feedDocument.appendChild(rss);
+                        break;
+                    }
+                }
+
+
+                return {"feed-out": typedValues(ValueType.XML, [new XMLSerializer().serializeToString(feedDocument)])}
+            }
+
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Ok,
+                value: map
+            };
+        } catch (error) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Err,
+                error: (error as Error).message
+            };
+        }
+    }
+}
+
+const forEachNode: NodeDefinition = {
+    type: "forEachNode",
+    displayName: "For Each",
+    category: "Structure",
+    configSchema: {
+        width: {type: "number", label: "Width", min: 0, hidden: true},
+        height: {type: "number", label: "Height", min: 0, hidden: true}
+    },
+    handles: {
+        source: [{id: "data-out", label: "OUT"}],
+        target: [{id: "data-in", label: "IN"}]
+    },
+    defaultConfig: {width: 480, height: 320} as ForEachConfig,
+    // For-each nodes are evaluated by evaluatePipeline, as their output depends on the nodes they contain
+    createMapper: (nodeID) => ({
+        fromNode: nodeID,
+        kind: PipeState.Ok,
+        value: () => {
+            throw new Error("For each node evaluated as regular node");
+        }
+    })
+}
+
+const iterationItemNode: NodeDefinition = {
+    type: "iterationItemNode",
+    displayName: "Item",
+    category: "Structure",
+    internal: true,
+    configSchema: {},
+    handles: {
+        source: [{id: "item-out", label: "Item"}],
+        target: []
+    },
+    defaultConfig: {},
+    // Output is provided by evaluatePipeline for each iteration; Outside a for-each node there are no items
+    createMapper: (nodeID) => ({fromNode: nodeID, kind: PipeState.Ok, value: () => ({"item-out": []})})
+}
+
+const iterationResultNode: NodeDefinition = {
+    type: "iterationResultNode",
+    displayName: "Result",
+    category: "Structure",
+    internal: true,
+    configSchema: {},
+    handles: {
+        source: [],
+        target: [{id: "result-in", label: "Result", optional: true}]
+    },
+    defaultConfig: {},
+    // Input is collected by evaluatePipeline for each iteration
+    createMapper: (nodeID) => ({fromNode: nodeID, kind: PipeState.Ok, value: () => ({})})
+}
+
+const macroNode: NodeDefinition = {
+    type: "macroNode",
+    displayName: "Macro",
+    category: "Macros",
+    internal: true,
+    configSchema: {
+        macro: {type: "string", label: "Macro", nullable: true, hidden: true}
+    },
+    // Handles are those of the macro, see configHandles
+    handles: {source: [], target: []},
+    defaultConfig: {macro: null} as MacroConfig,
+    configHandles: (config) => {
+        const {macro} = config as MacroConfig;
+        try {
+            return macro != null ? macroHandles(parseMacro(macro)) : {source: [], target: []};
+        } catch (e) {
+            return {source: [], target: []};
+        }
+    },
+    createMapper: async (nodeID, config, context) => {
+        const {macro: macroText} = config as MacroConfig;
+        if (macroText == null) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.BadConfig
+            };
+        }
+
+        let macro: MacroDefinition;
+        try {
+            macro = parseMacro(macroText);
+        } catch (error) {
+            return {
+                fromNode: nodeID,
+                kind: PipeState.Err,
+                error: (error as Error).message
+            };
+        }
+
+        // Progress of the nodes within the macro is not reported, as each would report its own progress
+        const nodes = await createEvaluationNodes(macro.pipeline, {dom: context.dom, fetch: context.fetch});
+        for (let [innerID, node] of Object.entries(nodes)) {
+            if (node.pipeValue.kind == PipeState.Err) {
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Err,
+                    error: "Node " + innerID + " of " + macro.name + ": " + node.pipeValue.error
+                };
+            } else if (node.pipeValue.kind == PipeState.BadConfig) {
+                return {
+                    fromNode: nodeID,
+                    kind: PipeState.Err,
+                    error: "Node " + innerID + " of " + macro.name + " is not configured"
+                };
+            }
+        }
+
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Ok,
+            value: async (input: PipeData, signal: AbortSignal) => {
+                // Input of the macro is provided by a node that outputs it as-is, connected to the exposed input handles
+                const inputNode: EvaluationNode = {
+                    type: MACRO_INPUT_NODE,
+                    pipeValue: {kind: PipeState.Ok, mapper: () => input},
+                    handles: {source: [], target: []}
+                };
+                const inputEdges = macro.inputs.map((handle) => ({source: MACRO_INPUT_NODE, sourceHandle: handle.id, target: handle.node, targetHandle: handle.handle}));
+                const results = await evaluatePipeline({...nodes, [MACRO_INPUT_NODE]: inputNode}, [...macro.pipeline.edges, ...inputEdges], signal);
+
+                let output = {} as PipeData;
+                for (let handle of macro.outputs) {
+                    const result = results[handle.node];
+                    if (result.kind == "error") {
+                        throw new MapperError("Node " + handle.node + " of " + macro.name + ": " + result.error);
+                    }
+                    output[handle.id] = result.kind == "output" ? result.output[handle.handle] ?? [] : [];
+                }
+                return output;
+            }
+        };
+    }
+}
+
+// Built-in node types, in the order they are listed in the editor
+for (let definition of [
+    demoInputNode,
+    htmlInputNode,
+    feedInputNode,
+    fetchNode,
+    textInputNode,
+    regexNode,
+    xpathNode,
+    selectorNode,
+    recordsNode,
+    jsonQueryNode,
+    mergeNode,
+    filterNode,
+    forEachNode,
+    iterationItemNode,
+    iterationResultNode,
+    macroNode,
+    feedOutputNode
+]) {
+    registerNode(definition);
+}
\ No newline at end of file
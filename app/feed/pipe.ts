@@ -1,17 +1,81 @@
 // These live here instead of nodes.tsx so that they are available on both client and server
 
+import {TypedValue, ValueType} from "@/app/feed/values";
+
+/**
+ * Data flowing through pipes; Data for each handle is collected into a single array of typed values
+ */
+export type PipeData = { [key: string]: TypedValue[] };
+
+/**
+ * Mapper function type for data pipes; Input values are converted to the types accepted by each input handle beforehand
+ */
+export type PipeMapper = SyncPipeMapper | AsyncPipeMapper;
+
+/**
+ * Synchronous mapper, for nodes that only process their input
+ */
+export type SyncPipeMapper = (input: PipeData) => (PipeData)
+
 /**
- * Mapper function type for data pipes; Data for each input handle is collected into a single string array
+ * Asynchronous mapper, for nodes that perform I/O such as fetching data based on their input
+ *
+ * The signal is aborted if the pipeline changes while the mapper runs, after which the mapper should stop its work and reject.
  */
-export type PipeMapper = (input: { [key: string]: string[] }) => ({ [key: string]: string[] })
+export type AsyncPipeMapper = (input: PipeData, signal: AbortSignal) => Promise<PipeData>
+
+/**
+ * Error thrown by a mapper when its input is invalid
+ *
+ * Other errors thrown by mappers are treated as faults in the node's implementation; The message of this error is instead shown to the user.
+ */
+export class MapperError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MapperError";
+    }
+}
+
+/**
+ * Input and output handles of a node
+ */
+export interface Handles {
+    source: HandleInfo[],
+    target: HandleInfo[]
+}
+
+export interface HandleInfo {
+    /**
+     * Id for this handle, must be unique per node. Not displayed.
+     */
+    id: string,
+    /**
+     * Display name for this handle, may be shortened if longer than 5 characters.
+     */
+    label: string,
+    /**
+     * Handle group, absence indicates an ungrouped handle
+     */
+    group?: string,
+    /**
+     * True if this handle is optional, false or absent if not.
+     */
+    optional?: boolean,
+    /**
+     * Value types of this handle; For input handles the accepted types in order of preference, for output handles the types produced. Absent for any type.
+     *
+     * Values of other types are converted if possible, see {@link convertValue}
+     */
+    types?: ValueType[]
+}
 
 /**
  * Message describing a state change in the data pipe of a node.
  */
-export type PipeMessage<T> = OkMessage<T> | BadConfigMessage | ErrMessage;
+export type PipeMessage<T> = OkMessage<T> | BadConfigMessage | ErrMessage | PendingMessage;
 
 /**
- * "Map" function for PipeMessages, performing a map over T into U if the message is of kind Ok, leaving Error/BadConfig messages as-is
+ * "Map" function for PipeMessages, performing a map over T into U if the message is of kind Ok, leaving Error/BadConfig/Pending messages as-is
  * @param message Message to map
  * @param map Map function
  */
@@ -25,10 +89,28 @@ export function mapMessage<T, U>(message: PipeMessage<T>, map: (t: T) => U): Pip
             };
         case PipeState.BadConfig:
         case PipeState.Err:
+        case PipeState.Pending:
             return message;
     }
 }
 
+/**
+ * Convert a pipe update message into the pipe state it describes
+ * @param message Update message
+ */
+export function messageToPipeValue(message: PipeMessage<PipeMapper>): PipeValue {
+    switch (message.kind) {
+        case PipeState.Ok:
+            return {kind: PipeState.Ok, mapper: message.value};
+        case PipeState.BadConfig:
+            return {kind: PipeState.BadConfig};
+        case PipeState.Err:
+            return {kind: PipeState.Err, error: message.error};
+        case PipeState.Pending:
+            return {kind: PipeState.Pending, progress: message.progress};
+    }
+}
+
 /**
  * Ok-state message, containing the updated value T
  */
@@ -55,19 +137,32 @@ export interface ErrMessage {
     error: string
 }
 
+/**
+ * Pending-state message, indicating the originating node is loading data for its pipe, e.g. fetching a document
+ */
+export interface PendingMessage {
+    fromNode: string,
+    kind: PipeState.Pending,
+    /**
+     * Number in range of 0 to 1 (inclusive), absent if progress is unknown
+     */
+    progress?: number
+}
+
 /**
  * Data pipe state kind
  */
 export enum PipeState {
     Ok,
     BadConfig,
-    Err
+    Err,
+    Pending
 }
 
 /**
  * State value for data pipes
  */
-export type PipeValue = OkPipe | BadConfigPipe | ErrPipe;
+export type PipeValue = OkPipe | BadConfigPipe | ErrPipe | PendingPipe;
 
 interface OkPipe {
     kind: PipeState.Ok
@@ -81,4 +176,9 @@ interface BadConfigPipe {
 interface ErrPipe {
     kind: PipeState.Err,
     error: string
+}
+
+interface PendingPipe {
+    kind: PipeState.Pending,
+    progress?: number
 }
\ No newline at end of file
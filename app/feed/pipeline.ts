@@ -0,0 +1,211 @@
+// Serializable pipeline format; Like pipe.ts this does not depend on React so that it is available on both client and server
+
+/**
+ * Current version of the pipeline document format. Must be incremented for any change that older versions of the editor cannot read.
+ */
+export const PIPELINE_VERSION = 2;
+
+/**
+ * Single configuration value; Restricted to JSON primitives so that configuration can be serialized as-is
+ */
+export type ConfigValue = string | number | boolean | null;
+
+/**
+ * Configuration of a single node, the keys of which are specific to each node type
+ */
+export type NodeConfig = { [key: string]: ConfigValue };
+
+/**
+ * Saved pipeline, as written to and read from JSON
+ */
+export interface PipelineDocument {
+    /**
+     * Format version, see {@link PIPELINE_VERSION}
+     */
+    version: number,
+    nodes: PipelineNode[],
+    edges: PipelineEdge[]
+}
+
+/**
+ * Saved node
+ */
+export interface PipelineNode {
+    /**
+     * Node ID, unique within the pipeline
+     */
+    id: string,
+    /**
+     * Node type, key into the editor's nodeTypes
+     */
+    type: string,
+    /**
+     * Editor display position of this node; Relative to the parent node, if any
+     */
+    position: { x: number, y: number },
+    /**
+     * ID of the container node (e.g. a for-each node) this node is part of, absent for top-level nodes
+     *
+     * Added in version 2
+     */
+    parent?: string,
+    /**
+     * Node configuration, as reported by the node through {@link NodeProperties.onConfigUpdate}
+     */
+    config: NodeConfig
+}
+
+/**
+ * Saved edge, connecting the output handle of one node to the input handle of another
+ */
+export interface PipelineEdge {
+    source: string,
+    sourceHandle: string,
+    target: string,
+    targetHandle: string
+}
+
+/**
+ * Serialize a pipeline into a JSON string, tagged with the current format version
+ * @param nodes Nodes of the pipeline
+ * @param edges Edges of the pipeline
+ */
+export function serializePipeline(nodes: PipelineNode[], edges: PipelineEdge[]): string {
+    const pipeline: PipelineDocument = {
+        version: PIPELINE_VERSION,
+        nodes: nodes,
+        edges: edges
+    };
+    return JSON.stringify(pipeline, null, 2);
+}
+
+/**
+ * Parse and validate a JSON pipeline document
+ *
+ * Only the structure of the document is validated; Callers must check node types themselves.
+ *
+ * @param text JSON text of the pipeline document
+ * @throws Error if the document is not valid JSON, is not a pipeline, or has an unsupported version
+ */
+export function parsePipeline(text: string): PipelineDocument {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Pipeline is not valid JSON");
+    }
+    return readPipeline(json);
+}
+
+/**
+ * Check if a parsed JSON value is an object, as opposed to an array, a primitive or null
+ * @param json Parsed JSON value
+ */
+export function isJSONObject(json: unknown): json is { [key: string]: unknown } {
+    return typeof json == "object" && json != null && !Array.isArray(json);
+}
+
+/**
+ * Validate an already parsed pipeline document, e.g. one embedded in another document
+ * @param json Parsed JSON value
+ * @throws Error if the value is not a pipeline, or has an unsupported version
+ */
+export function readPipeline(json: unknown): PipelineDocument {
+    if (!isJSONObject(json)) {
+        throw new Error("Pipeline must be a JSON object");
+    }
+    if (typeof json.version != "number") {
+        throw new Error("Pipeline has no version");
+    } else if (json.version > PIPELINE_VERSION) {
+        throw new Error("Pipeline version " + json.version + " is newer than supported version " + PIPELINE_VERSION);
+    }
+    if (!Array.isArray(json.nodes) || !Array.isArray(json.edges)) {
+        throw new Error("Pipeline must have a list of nodes and a list of edges");
+    }
+
+    let nodeIDs = new Set<string>();
+    let nodes = [] as PipelineNode[];
+    for (let node of json.nodes as unknown[]) {
+        if (
+            !isJSONObject(node)
+            || typeof node.id != "string"
+            || typeof node.type != "string"
+            || !isJSONObject(node.position)
+            || typeof node.position.x != "number"
+            || typeof node.position.y != "number"
+        ) {
+            throw new Error("Invalid node: " + JSON.stringify(node));
+        }
+        if (nodeIDs.has(node.id)) {
+            throw new Error("Duplicate node ID: " + node.id);
+        }
+
+        let config = {} as NodeConfig;
+        if (isJSONObject(node.config)) {
+            for (let [key, value] of Object.entries(node.config)) {
+                if (value === null || typeof value == "string" || typeof value == "number" || typeof value == "boolean") {
+                    config[key] = value;
+                } else {
+                    throw new Error("Invalid configuration value for node " + node.id + ": " + key);
+                }
+            }
+        }
+
+        const parent = node.parent;
+        if (parent != undefined && typeof parent != "string") {
+            throw new Error("Invalid parent for node " + node.id);
+        }
+
+        nodeIDs.add(node.id);
+        nodes.push({
+            id: node.id,
+            type: node.type,
+            position: {x: node.position.x, y: node.position.y},
+            ...parent != undefined ? {parent: parent} : {},
+            config: config
+        });
+    }
+
+    const parents = Object.fromEntries(nodes.map((node) => [node.id, node.parent]));
+    for (let node of nodes) {
+        // Following parents must end at a top-level node, within as many steps as there are nodes
+        let ancestor = node.parent;
+        for (let depth = 0; ancestor != undefined; depth++) {
+            if (!nodeIDs.has(ancestor)) {
+                throw new Error("Node " + node.id + " has unknown parent: " + ancestor);
+            }
+            if (depth >= nodes.length) {
+                throw new Error("Node " + node.id + " is its own parent");
+            }
+            ancestor = parents[ancestor];
+        }
+    }
+
+    let edges = [] as PipelineEdge[];
+    for (let edge of json.edges as unknown[]) {
+        if (
+            !isJSONObject(edge)
+            || typeof edge.source != "string"
+            || typeof edge.sourceHandle != "string"
+            || typeof edge.target != "string"
+            || typeof edge.targetHandle != "string"
+        ) {
+            throw new Error("Invalid edge: " + JSON.stringify(edge));
+        }
+        if (!nodeIDs.has(edge.source) || !nodeIDs.has(edge.target)) {
+            throw new Error("Edge connects to unknown node: " + edge.source + " -> " + edge.target);
+        }
+        edges.push({
+            source: edge.source,
+            sourceHandle: edge.sourceHandle,
+            target: edge.target,
+            targetHandle: edge.targetHandle
+        });
+    }
+
+    return {
+        version: json.version,
+        nodes: nodes,
+        edges: edges
+    };
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import {describe, expect, it} from "vitest";
+import {JSDOM} from "jsdom";
+import type {MapperDOM} from "@/app/feed/mappers";
+// Registers the built-in node types
+import "@/app/feed/mappers";
+import {PipeState} from "@/app/feed/pipe";
+import {ConfigSchema, createNodeMapper, NodeDefinition, nodeDefinition, validateConfig} from "@/app/feed/registry";
+
+const dom = new JSDOM().window as unknown as MapperDOM;
+
+describe("validateConfig", () => {
+    const schema: ConfigSchema = {
+        name: {type: "string", label: "Name", validate: (value) => value.includes(" ") ? "No spaces" : null},
+        pattern: {type: "regex", label: "Pattern", nullable: true},
+        url: {type: "url", label: "URL", nullable: true},
+        count: {type: "number", label: "Count", min: 1, max: 10},
+        enabled: {type: "boolean", label: "Enabled"},
+        mode: {type: "enum", label: "Mode", options: ["a", "b"]}
+    };
+    const valid = {name: "x", pattern: null, url: "https://example.com/", count: 1, enabled: true, mode: "a"};
+
+    it("accepts valid configurations, and null values of nullable fields", () => {
+        expect(validateConfig(schema, valid, dom)).toBeNull();
+        expect(validateConfig(schema, {...valid, url: null, pattern: "a+"}, dom)).toBeNull();
+    });
+
+    it.each([
+        ["missing values", {name: null}, "Name: Missing value"],
+        ["values of the wrong type", {name: 1}, "Name: Must be text"],
+        ["values rejected by the field's own validation", {name: "a b"}, "Name: No spaces"],
+        ["invalid regexes", {pattern: "("}, "Pattern: Invalid regex"],
+        ["invalid URLs", {url: "example.com"}, "URL: Invalid URL"],
+        ["URLs other than http(s)", {url: "file:///etc/passwd"}, "URL: URL must start with http:// or https://"],
+        ["numbers out of bounds", {count: 11}, "Count: Must be between 1 and 10"],
+        ["non-finite numbers", {count: NaN}, "Count: Must be a number"],
+        ["non-boolean flags", {enabled: "true"}, "Enabled: Must be true or false"],
+        ["unknown options", {mode: "c"}, "Mode: Must be one of a, b"]
+    ])("reports %s", (_case, changes, message) => {
+        expect(validateConfig(schema, {...valid, ...changes}, dom)).toEqual(message);
+    });
+
+    it("reports invalid configurations of built-in nodes instead of creating their pipe", async () => {
+        const definition = nodeDefinition("fetchNode") as NodeDefinition;
+        const fetch = async (fromNode: string) => ({fromNode: fromNode, kind: PipeState.Err, error: "No fetching in tests"} as const);
+        expect(await createNodeMapper(definition, "node", {...definition.defaultConfig, concurrency: 0}, {dom: dom, fetch: fetch}))
+            .toEqual({fromNode: "node", kind: PipeState.Err, error: "Parallel: Must be between 1 and 16"});
+        expect(await createNodeMapper(definition, "node", definition.defaultConfig, {dom: dom, fetch: fetch}))
+            .toMatchObject({fromNode: "node", kind: PipeState.Ok});
+    });
+});
\ No newline at end of file
@@ -0,0 +1,241 @@
+// Registry of node types; Node types are registered from their own modules, built-in node types from mappers.ts
+
+import type {ComponentType} from "react";
+import type {NodeProps} from "reactflow";
+import type {NodeProperties} from "@/app/nodes/nodes";
+import type {MapperContext, MapperDefinition, MapperDOM} from "@/app/feed/mappers";
+import type {NodeConfig} from "@/app/feed/pipeline";
+import {PipeMapper, PipeMessage, PipeState} from "@/app/feed/pipe";
+
+/**
+ * Description of a single configuration value
+ */
+export type ConfigField = {
+    /**
+     * Type of the value; Regex and URL values are strings that must be a valid regex or absolute http(s) URL, enum values are one of {@link options}
+     */
+    type: "string" | "regex" | "url" | "number" | "boolean" | "enum",
+    /**
+     * Display name of this value
+     */
+    label: string,
+    /**
+     * Allowed values of enum values
+     */
+    options?: string[],
+    /**
+     * True if the value may be null; String-like values are null until the user has entered a valid value
+     */
+    nullable?: boolean,
+    /**
+     * Bounds of number values, inclusive
+     */
+    min?: number,
+    max?: number,
+    /**
+     * Example value of string-like values, shown in empty inputs (Default: the label)
+     */
+    placeholder?: string,
+    /**
+     * If true, string values are edited in a multi-line text area
+     */
+    multiline?: boolean,
+    /**
+     * If true, the value is not shown in generated forms, e.g. as it is set by a custom editor
+     */
+    hidden?: boolean,
+    /**
+     * Optional condition for showing the value in generated forms, e.g. only in a specific mode of the node
+     * @param config Current configuration of the node
+     */
+    visible?: (config: NodeConfig) => boolean,
+    /**
+     * Optional further validation of string-like values
+     * @param value Value to validate
+     * @param dom DOM implementation, for values such as CSS selectors that are validated by parsing them
+     * @returns Error message if the value is invalid, null otherwise
+     */
+    validate?: (value: string, dom: MapperDOM) => string | null
+}
+
+/**
+ * Description of the configuration of a node type, keyed by configuration key
+ */
+export type ConfigSchema = { [key: string]: ConfigField };
+
+/**
+ * Complete definition of a node type
+ *
+ * The data processing part ({@link MapperDefinition}) must not depend on React, so that pipelines can be evaluated without an editor.
+ */
+export interface NodeDefinition extends MapperDefinition {
+    /**
+     * Unique ID of this node type, as saved in pipelines
+     */
+    type: string,
+    /**
+     * Name of this node type, shown in the editor
+     */
+    displayName: string,
+    /**
+     * Category this node type is listed under in the editor
+     */
+    category: string,
+    /**
+     * Description of this node type's configuration
+     */
+    configSchema: ConfigSchema,
+    /**
+     * If true, this node type is not listed in the editor, as nodes of this type are created by the editor itself
+     */
+    internal?: boolean,
+    /**
+     * Optional custom editor component, rendered by ReactFlow for nodes of this type; Nodes without one use a generic editor
+     *
+     * Editor components are client-only, see {@link registerNodeEditor} to add one to a node type that is also used on the server.
+     */
+    editor?: ComponentType<NodeProps<NodeProperties>>
+}
+
+/**
+ * Registered node types, in order of registration
+ */
+const registry = new Map<string, NodeDefinition>();
+
+/**
+ * Add a node type to the registry
+ * @param definition Definition of the node type
+ * @throws Error if a node type with the same ID is already registered
+ */
+export function registerNode(definition: NodeDefinition) {
+    if (registry.has(definition.type)) {
+        throw new Error("Node type already registered: " + definition.type);
+    }
+    registry.set(definition.type, definition);
+}
+
+/**
+ * Add a custom editor component to a registered node type
+ * @param type ID of the node type
+ * @param editor Editor component, see {@link NodeDefinition.editor}
+ * @throws Error if the node type is not registered
+ */
+export function registerNodeEditor(type: string, editor: ComponentType<NodeProps<NodeProperties>>) {
+    const definition = registry.get(type);
+    if (definition == undefined) {
+        throw new Error("Editor for unknown node type: " + type);
+    }
+    registry.set(type, {...definition, editor: editor});
+}
+
+/**
+ * Look up a node type
+ * @param type ID of the node type
+ * @returns Definition of the node type, or undefined if no such node type is registered
+ */
+export function nodeDefinition(type: string): NodeDefinition | undefined {
+    return registry.get(type);
+}
+
+/**
+ * All registered node types, in order of registration
+ */
+export function nodeDefinitions(): NodeDefinition[] {
+    return [...registry.values()];
+}
+
+/**
+ * Validate a single string-like configuration value
+ * @param field Description of the value
+ * @param value Value to validate, not empty
+ * @param dom See {@link ConfigField.validate}
+ * @returns Error message if the value is invalid, null otherwise
+ */
+export function validateConfigText(field: ConfigField, value: string, dom: MapperDOM): string | null {
+    switch (field.type) {
+        case "regex":
+            try {
+                new RegExp(value);
+            } catch (e) {
+                return "Invalid regex";
+            }
+            break;
+        case "url":
+            try {
+                const url = new URL(value);
+                if (url.protocol != "http:" && url.protocol != "https:") {
+                    return "URL must start with http:// or https://";
+                }
+            } catch (e) {
+                return "Invalid URL";
+            }
+            break;
+    }
+    return field.validate?.(value, dom) ?? null;
+}
+
+/**
+ * Validate a node configuration against its schema
+ * @param schema Description of the configuration
+ * @param config Configuration to validate
+ * @param dom See {@link ConfigField.validate}
+ * @returns Error message describing the first invalid value, or null if the configuration is valid
+ */
+export function validateConfig(schema: ConfigSchema, config: NodeConfig, dom: MapperDOM): string | null {
+    for (let [key, field] of Object.entries(schema)) {
+        const value = config[key];
+        let error: string | null = null;
+        if (value === null || value === undefined) {
+            error = field.nullable ? null : "Missing value";
+        } else {
+            switch (field.type) {
+                case "string":
+                case "regex":
+                case "url":
+                    error = typeof value == "string" ? validateConfigText(field, value, dom) : "Must be text";
+                    break;
+                case "number":
+                    if (typeof value != "number" || !isFinite(value)) {
+                        error = "Must be a number";
+                    } else if ((field.min != undefined && value < field.min) || (field.max != undefined && value > field.max)) {
+                        error = "Must be between " + (field.min ?? "-∞") + " and " + (field.max ?? "∞");
+                    }
+                    break;
+                case "boolean":
+                    error = typeof value == "boolean" ? null : "Must be true or false";
+                    break;
+                case "enum":
+                    error = typeof value == "string" && (field.options ?? []).includes(value) ? null : "Must be one of " + (field.options ?? []).join(", ");
+                    break;
+            }
+        }
+        if (error != null) {
+            return field.label + ": " + error;
+        }
+    }
+    return null;
+}
+
+/**
+ * Create the data pipe of a node, after validating its configuration; Invalid configuration is reported as an Err message
+ * @param definition Definition of the node's type
+ * @param nodeID ID of the node
+ * @param config Configuration of the node
+ * @param context Environment-specific functionality
+ */
+export function createNodeMapper(
+    definition: NodeDefinition,
+    nodeID: string,
+    config: NodeConfig,
+    context: MapperContext
+): PipeMessage<PipeMapper> | Promise<PipeMessage<PipeMapper>> {
+    const error = validateConfig(definition.configSchema, config, context.dom);
+    if (error != null) {
+        return {
+            fromNode: nodeID,
+            kind: PipeState.Err,
+            error: error
+        };
+    }
+    return definition.createMapper(nodeID, config, context);
+}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import {describe, expect, it} from "vitest";
+import {GraphEdge} from "@/app/feed/executor";
+// Registers the built-in node types
+import "@/app/feed/mappers";
+import {NodeDefinition, nodeDefinition} from "@/app/feed/registry";
+import {createsCycle, validatePipeline, ValidationNode} from "@/app/feed/validation";
+
+/**
+ * Node of a built-in type, with the handles of its definition
+ * @param type Type of the node
+ * @param parent ID of the for-each node containing the node
+ */
+function node(type: string, parent?: string): ValidationNode {
+    return {type: type, handles: (nodeDefinition(type) as NodeDefinition).handles, parent: parent};
+}
+
+const feedOutput = node("feedOutputNode");
+const source = node("textInputNode");
+const regex = node("regexNode");
+
+const edge = (from: string, to: string, sourceHandle: string = "data-out", targetHandle: string = "data-in"): GraphEdge => (
+    {source: from, sourceHandle: sourceHandle, target: to, targetHandle: targetHandle}
+);
+
+/**
+ * Edges to the required inputs of a Feed Output node
+ */
+const feedEdges = (from: string, to: string = "feed", sourceHandle: string = "data-out"): GraphEdge[] => (
+    ["title", "link", "description"].map((handle) => edge(from, to, sourceHandle, handle))
+);
+
+describe("createsCycle", () => {
+    const edges = [edge("a", "b"), edge("b", "c")];
+
+    it("detects edges back to upstream nodes and to the node itself", () => {
+        expect(createsCycle(edges, "c", "a")).toBe(true);
+        expect(createsCycle(edges, "a", "a")).toBe(true);
+    });
+
+    it("allows edges that do not close a cycle", () => {
+        expect(createsCycle(edges, "a", "c")).toBe(false);
+        expect(createsCycle(edges, "c", "d")).toBe(false);
+    });
+});
+
+describe("validatePipeline", () => {
+    it("accepts a complete pipeline", () => {
+        const nodes = {in: source, regex: regex, feed: feedOutput};
+        expect(validatePipeline(nodes, [edge("in", "regex", "text-out"), ...feedEdges("regex")])).toEqual([]);
+    });
+
+    it("reports cycles, and the nodes depending on them", () => {
+        const nodes = {a: regex, b: regex, c: regex, feed: feedOutput};
+        const findings = validatePipeline(nodes, [edge("a", "b"), edge("b", "a"), edge("b", "c"), ...feedEdges("c")]);
+        expect(findings).toContainEqual({severity: "error", nodeID: "a", message: "Node is part of a cycle"});
+        expect(findings).toContainEqual({severity: "error", nodeID: "b", message: "Node is part of a cycle"});
+        expect(findings).toContainEqual({severity: "error", nodeID: "c", message: "Node depends on a cycle"});
+    });
+
+    it("reports unconnected required inputs and unused outputs, errors first", () => {
+        const findings = validatePipeline({in: source, regex: regex, feed: feedOutput}, feedEdges("in", "feed", "text-out"));
+        expect(findings).toEqual([
+            {severity: "error", nodeID: "regex", message: "Required input IN is not connected"},
+            {severity: "warning", nodeID: "regex", message: "Regex output is not used by the feed"}
+        ]);
+    });
+
+    it("reports connections between incompatible or missing handles", () => {
+        const nodes = {records: node("recordsNode"), feed: feedOutput, in: source, regex: regex};
+        const findings = validatePipeline(nodes, [edge("records", "feed", "records-out", "item-enclosure-length"), edge("in", "regex", "gone")]);
+        expect(findings).toContainEqual({severity: "error", nodeID: "feed", message: "Input Enclosure length cannot accept record values from node records"});
+        expect(findings).toContainEqual({severity: "error", nodeID: "regex", message: "Connection from node in uses a handle that no longer exists"});
+    });
+
+    it("reports connections across for-each nodes, and checks their contents against the Result node", () => {
+        const nodes = {
+            in: source,
+            each: node("forEachNode"),
+            inner: node("regexNode", "each"),
+            result: node("iterationResultNode", "each"),
+            feed: feedOutput
+        };
+        const findings = validatePipeline(nodes, [edge("in", "each", "text-out"), edge("in", "inner", "text-out"), ...feedEdges("each")]);
+        expect(findings).toContainEqual({severity: "error", nodeID: "inner", message: "Connected to node in outside of its For Each node"});
+        expect(findings).toContainEqual({severity: "warning", nodeID: "inner", message: "Regex output is not used by its For Each node"});
+    });
+
+    it("warns about Feed Output nodes other than the first", () => {
+        const findings = validatePipeline({in: source, feed: feedOutput, other: feedOutput}, [...feedEdges("in", "feed", "text-out"), ...feedEdges("in", "other", "text-out")]);
+        expect(findings).toEqual([{severity: "warning", nodeID: "other", message: "Only the first Feed Output is used, this one is ignored"}]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,158 @@
+// Structural checks of pipelines, finding problems that prevent nodes from being evaluated or their output from being used
+
+import {connectionConversions} from "@/app/feed/values";
+import {EvaluationNode, GraphEdge, ITERATION_RESULT_NODE} from "@/app/feed/executor";
+import {nodeDefinition} from "@/app/feed/registry";
+
+/**
+ * Node as checked by {@link validatePipeline}; The data pipe is not needed, only the node's structure
+ */
+export type ValidationNode = Pick<EvaluationNode, "type" | "handles" | "parent">;
+
+/**
+ * Problem found in a pipeline
+ */
+export type ValidationFinding = {
+    /**
+     * Errors prevent the node from being evaluated, warnings mark nodes that are evaluated but likely not as intended
+     */
+    severity: "error" | "warning",
+    /**
+     * ID of the node the problem is found at
+     */
+    nodeID: string,
+    message: string
+};
+
+/**
+ * Output node of top-level nodes; Only one is used when a feed is generated
+ */
+const FEED_OUTPUT_NODE = "feedOutputNode";
+
+/**
+ * Collect the nodes reachable from a node along edges
+ * @param nodeID Node to start from, which is only included if it is reachable from itself
+ * @param edges Edges to follow
+ * @param reverse If true, edges are followed from target to source, collecting upstream nodes instead (Default: false)
+ */
+function reachableNodes(nodeID: string, edges: GraphEdge[], reverse: boolean = false): Set<string> {
+    let reached = new Set<string>();
+    let queue = [nodeID];
+    while (queue.length > 0) {
+        const current = queue.shift() as string;
+        for (let edge of edges) {
+            const [from, to] = reverse ? [edge.target, edge.source] : [edge.source, edge.target];
+            if (from == current && !reached.has(to)) {
+                reached.add(to);
+                queue.push(to);
+            }
+        }
+    }
+    return reached;
+}
+
+/**
+ * Check if adding an edge would create a cycle, i.e. if the target node already sends data to the source node
+ * @param edges Current edges of the pipeline
+ * @param source Source node of the new edge
+ * @param target Target node of the new edge
+ */
+export function createsCycle(edges: GraphEdge[], source: string, target: string): boolean {
+    return source == target || reachableNodes(target, edges).has(source);
+}
+
+/**
+ * Check a pipeline for structural problems
+ *
+ * Findings cover cycles (and nodes depending on them), nodes whose output is not used by the feed, required input handles without connections,
+ * connections between handles of incompatible types or to missing handles, and Feed Output nodes other than the one used for the feed.
+ * Nodes within a for-each node are checked against the for-each node's Result node instead of the Feed Output.
+ *
+ * @param nodes Nodes of the pipeline, keyed by node ID
+ * @param edges All edges between the nodes
+ * @returns Findings, errors first
+ */
+export function validatePipeline(nodes: { [key: string]: ValidationNode }, edges: GraphEdge[]): ValidationFinding[] {
+    let findings = [] as ValidationFinding[];
+    const scopes = new Set(Object.values(nodes).map((node) => node.parent));
+
+    // Only the first Feed Output is used, see the feed route
+    const feedOutputs = Object.keys(nodes).filter((nodeID) => nodes[nodeID].parent == undefined && nodes[nodeID].type == FEED_OUTPUT_NODE);
+    for (let nodeID of feedOutputs.slice(1)) {
+        findings.push({severity: "warning", nodeID: nodeID, message: "Only the first Feed Output is used, this one is ignored"});
+    }
+
+    for (let edge of edges) {
+        const source = nodes[edge.source];
+        const target = nodes[edge.target];
+        if (source == undefined || target == undefined) {
+            continue;
+        }
+        const sourceHandle = source.handles.source.find((handle) => handle.id == edge.sourceHandle);
+        const targetHandle = target.handles.target.find((handle) => handle.id == edge.targetHandle);
+        if (source.parent != target.parent) {
+            findings.push({severity: "error", nodeID: edge.target, message: "Connected to node " + edge.source + " outside of its For Each node"});
+        } else if (sourceHandle == undefined || targetHandle == undefined) {
+            findings.push({
+                severity: "error",
+                nodeID: edge.target,
+                message: "Connection from node " + edge.source + " uses a handle that no longer exists"
+            });
+        } else if (connectionConversions(sourceHandle.types, targetHandle.types) == null) {
+            findings.push({
+                severity: "error",
+                nodeID: edge.target,
+                message: "Input " + targetHandle.label + " cannot accept " + (sourceHandle.types ?? []).join("/") + " values from node " + edge.source
+            });
+        }
+    }
+
+    for (let [nodeID, node] of Object.entries(nodes)) {
+        for (let handle of node.handles.target) {
+            if (!handle.optional && !edges.some((edge) => edge.target == nodeID && edge.targetHandle == handle.id)) {
+                findings.push({severity: "error", nodeID: nodeID, message: "Required input " + handle.label + " is not connected"});
+            }
+        }
+    }
+
+    for (let parent of scopes) {
+        const scopeNodeIDs = Object.keys(nodes).filter((nodeID) => nodes[nodeID].parent == parent);
+        const scopeEdges = edges.filter((edge) => nodes[edge.source]?.parent == parent && nodes[edge.target]?.parent == parent);
+
+        // Nodes on a cycle can reach themselves, nodes downstream of one are reached from it
+        const cyclic = scopeNodeIDs.filter((nodeID) => reachableNodes(nodeID, scopeEdges).has(nodeID));
+        let dependent = new Set<string>();
+        for (let nodeID of cyclic) {
+            reachableNodes(nodeID, scopeEdges).forEach((downstream) => dependent.add(downstream));
+        }
+        for (let nodeID of scopeNodeIDs) {
+            if (cyclic.includes(nodeID)) {
+                findings.push({severity: "error", nodeID: nodeID, message: "Node is part of a cycle"});
+            } else if (dependent.has(nodeID)) {
+                findings.push({severity: "error", nodeID: nodeID, message: "Node depends on a cycle"});
+            }
+        }
+
+        // Output of a scope is the first Feed Output, or the Result node of a for-each node
+        const outputNodeID = parent == undefined
+            ? feedOutputs[0]
+            : scopeNodeIDs.find((nodeID) => nodes[nodeID].type == ITERATION_RESULT_NODE);
+        if (outputNodeID == undefined) {
+            continue;
+        }
+        const used = reachableNodes(outputNodeID, scopeEdges, true);
+        for (let nodeID of scopeNodeIDs) {
+            if (nodeID != outputNodeID && !used.has(nodeID) && nodes[nodeID].handles.source.length > 0 && nodes[nodeID].type != FEED_OUTPUT_NODE) {
+                const target = parent == undefined ? "the feed" : "its For Each node";
+                findings.push({
+                    severity: "warning",
+                    nodeID: nodeID,
+                    message: (nodeDefinition(nodes[nodeID].type)?.displayName ?? "Node") + " output is not used by " + target
+                });
+            }
+        }
+    }
+
+    // Stable sort keeps findings of the same severity in the order they were found
+    return findings.sort((a, b) => (a.severity == b.severity ? 0 : a.severity == "error" ? -1 : 1));
+}
\ No newline at end of file
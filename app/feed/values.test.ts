@@ -0,0 +1,53 @@
+import {describe, expect, it} from "vitest";
+import {connectionConversions, convertValue, TypedValue, ValueType} from "@/app/feed/values";
+
+describe("convertValue", () => {
+    it("leaves values of accepted types unchanged", () => {
+        const value: TypedValue = {type: ValueType.HTML, value: "<p>a</p>"};
+        expect(convertValue(value, [ValueType.Text, ValueType.HTML])).toBe(value);
+        expect(convertValue(value)).toBe(value);
+    });
+
+    it("converts text to the first accepted type that the text can be converted to", () => {
+        expect(convertValue({type: ValueType.Text, value: " 12.5 "}, [ValueType.Number])).toEqual({type: ValueType.Number, value: 12.5});
+        expect(convertValue({type: ValueType.Text, value: "2024-01-02T03:04:05+01:00"}, [ValueType.Date])).toEqual({type: ValueType.Date, value: "2024-01-02T02:04:05.000Z"});
+        expect(convertValue({type: ValueType.Text, value: "https://example.com"}, [ValueType.URL])).toEqual({type: ValueType.URL, value: "https://example.com/"});
+        expect(convertValue({type: ValueType.Text, value: "not a number"}, [ValueType.Number, ValueType.HTML])).toEqual({type: ValueType.HTML, value: "not a number"});
+    });
+
+    it("returns null if the value cannot be converted", () => {
+        expect(convertValue({type: ValueType.Text, value: ""}, [ValueType.Number])).toBeNull();
+        expect(convertValue({type: ValueType.Text, value: "yesterday"}, [ValueType.Date])).toBeNull();
+        expect(convertValue({type: ValueType.Text, value: "example.com"}, [ValueType.URL])).toBeNull();
+        expect(convertValue({type: ValueType.Text, value: "{"}, [ValueType.JSON])).toBeNull();
+        expect(convertValue({type: ValueType.JSON, value: "\"1\""}, [ValueType.Number])).toBeNull();
+        expect(convertValue({type: ValueType.Date, value: "2024-01-02T00:00:00.000Z"}, [ValueType.Number])).toBeNull();
+    });
+
+    it("unquotes JSON strings, and represents numbers and records as JSON", () => {
+        expect(convertValue({type: ValueType.JSON, value: "\"a\""}, [ValueType.Text])).toEqual({type: ValueType.Text, value: "a"});
+        expect(convertValue({type: ValueType.JSON, value: "3"}, [ValueType.Number])).toEqual({type: ValueType.Number, value: 3});
+        expect(convertValue({type: ValueType.Number, value: 3}, [ValueType.JSON])).toEqual({type: ValueType.JSON, value: "3"});
+        const record: TypedValue = {type: ValueType.Record, value: {title: [{type: ValueType.Text, value: "a"}], link: []}};
+        expect(convertValue(record, [ValueType.JSON])).toEqual({type: ValueType.JSON, value: "{\"title\":[\"a\"],\"link\":[]}"});
+    });
+});
+
+describe("connectionConversions", () => {
+    it("needs no conversions if either handle allows any type, or all produced types are accepted", () => {
+        expect(connectionConversions(undefined, [ValueType.Text])).toEqual([]);
+        expect(connectionConversions([ValueType.Text], undefined)).toEqual([]);
+        expect(connectionConversions([ValueType.HTML, ValueType.Text], [ValueType.Text, ValueType.HTML])).toEqual([]);
+    });
+
+    it("lists the accepted types that produced types are converted to", () => {
+        expect(connectionConversions([ValueType.URL, ValueType.Date], [ValueType.Text])).toEqual([ValueType.Text]);
+        expect(connectionConversions([ValueType.Text, ValueType.Number], [ValueType.Number])).toEqual([ValueType.Number]);
+        expect(connectionConversions([ValueType.Text], [ValueType.Date, ValueType.URL])).toEqual([ValueType.Date]);
+    });
+
+    it("rejects connections where no produced type can be accepted", () => {
+        expect(connectionConversions([ValueType.Date], [ValueType.Number])).toBeNull();
+        expect(connectionConversions([ValueType.Record], [ValueType.URL, ValueType.HTML])).toBeNull();
+    });
+});
\ No newline at end of file
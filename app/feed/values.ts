@@ -0,0 +1,221 @@
+// Typed values carried by data pipes, so that nodes know what their input data means
+
+/**
+ * Type of a value on a data pipe
+ */
+export enum ValueType {
+    /**
+     * Plain text
+     */
+    Text = "text",
+    /**
+     * HTML markup, either a full document or a fragment
+     */
+    HTML = "html",
+    /**
+     * XML document
+     */
+    XML = "xml",
+    Number = "number",
+    /**
+     * Date and time, as ISO 8601 string in UTC
+     */
+    Date = "date",
+    /**
+     * Absolute URL
+     */
+    URL = "url",
+    /**
+     * JSON text
+     */
+    JSON = "json",
+    /**
+     * Record of named fields, e.g. the title, link and description of a single feed item
+     */
+    Record = "record"
+}
+
+/**
+ * Single value on a data pipe, tagged with its type
+ */
+export type TypedValue =
+    { type: ValueType.Number, value: number }
+    | { type: ValueType.Record, value: RecordFields }
+    | { type: Exclude<ValueType, ValueType.Number | ValueType.Record>, value: string };
+
+/**
+ * Fields of a record value; Each field holds a list of values, empty if the field has no value for this record
+ */
+export type RecordFields = { [key: string]: TypedValue[] };
+
+/**
+ * Create string-typed values
+ * @param type Type of the values
+ * @param values Value strings
+ */
+export function typedValues(type: Exclude<ValueType, ValueType.Number | ValueType.Record>, values: string[]): TypedValue[] {
+    return values.map((value) => ({type: type, value: value}));
+}
+
+/**
+ * Check if two lists of values are equal, comparing record fields by value
+ * @param a First list of values
+ * @param b Second list of values
+ */
+export function valuesEqual(a: TypedValue[], b: TypedValue[]): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (a.length != b.length) {
+        return false;
+    }
+    return a.every((value, index) => {
+        const other = b[index];
+        if (value.type != other.type) {
+            return false;
+        } else if (value.type == ValueType.Record && other.type == ValueType.Record) {
+            const fields = Object.keys(value.value);
+            return fields.length == Object.keys(other.value).length
+                && fields.every((field) => other.value[field] != undefined && valuesEqual(value.value[field], other.value[field]));
+        } else {
+            return value.value === other.value;
+        }
+    });
+}
+
+/**
+ * String representation of a value; Markup is returned as-is, JSON strings are unquoted, records are represented as JSON
+ * @param value Value to represent
+ */
+export function valueText(value: TypedValue): string {
+    switch (value.type) {
+        case ValueType.Number:
+            return value.value.toString();
+        case ValueType.Record:
+            return JSON.stringify(Object.fromEntries(
+                Object.entries(value.value).map(([field, values]) => [field, values.map(valueText)])
+            ));
+        case ValueType.JSON:
+            try {
+                const json = JSON.parse(value.value);
+                return typeof json == "string" ? json : value.value;
+            } catch (e) {
+                return value.value;
+            }
+        default:
+            return value.value;
+    }
+}
+
+/**
+ * Implicit conversions between value types, keyed by source type and then target type
+ *
+ * Conversions return null if the specific value cannot be converted, e.g. text that is not a number.
+ */
+const CONVERSIONS: { [key in ValueType]?: { [key in ValueType]?: (value: TypedValue) => TypedValue | null } } = {
+    [ValueType.Text]: {
+        [ValueType.HTML]: (value) => ({type: ValueType.HTML, value: valueText(value)}),
+        [ValueType.XML]: (value) => ({type: ValueType.XML, value: valueText(value)}),
+        [ValueType.Number]: (value) => {
+            const text = valueText(value).trim();
+            const number = Number(text);
+            return text.length > 0 && isFinite(number) ? {type: ValueType.Number, value: number} : null;
+        },
+        [ValueType.Date]: (value) => {
+            const date = new Date(valueText(value).trim());
+            return isNaN(date.getTime()) ? null : {type: ValueType.Date, value: date.toISOString()};
+        },
+        [ValueType.URL]: (value) => {
+            try {
+                return {type: ValueType.URL, value: new URL(valueText(value).trim()).href};
+            } catch (e) {
+                return null;
+            }
+        },
+        [ValueType.JSON]: (value) => {
+            try {
+                JSON.parse(valueText(value));
+                return {type: ValueType.JSON, value: valueText(value)};
+            } catch (e) {
+                return null;
+            }
+        }
+    },
+    [ValueType.HTML]: {
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)}),
+        [ValueType.XML]: (value) => ({type: ValueType.XML, value: valueText(value)})
+    },
+    [ValueType.XML]: {
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)}),
+        [ValueType.HTML]: (value) => ({type: ValueType.HTML, value: valueText(value)})
+    },
+    [ValueType.Number]: {
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)}),
+        [ValueType.JSON]: (value) => ({type: ValueType.JSON, value: JSON.stringify(value.value)})
+    },
+    [ValueType.Date]: {
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)})
+    },
+    [ValueType.URL]: {
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)})
+    },
+    [ValueType.JSON]: {
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)}),
+        [ValueType.Number]: (value) => {
+            const json = JSON.parse(value.value as string);
+            return typeof json == "number" ? {type: ValueType.Number, value: json} : null;
+        }
+    },
+    [ValueType.Record]: {
+        [ValueType.JSON]: (value) => ({type: ValueType.JSON, value: valueText(value)}),
+        [ValueType.Text]: (value) => ({type: ValueType.Text, value: valueText(value)})
+    }
+};
+
+/**
+ * Convert a value to one of the accepted types, if it is not of an accepted type already
+ * @param value Value to convert
+ * @param accepts Accepted types, in order of preference; Absent if any type is accepted
+ * @returns Converted value, or null if the value cannot be converted to any accepted type
+ */
+export function convertValue(value: TypedValue, accepts?: ValueType[]): TypedValue | null {
+    if (accepts == undefined || accepts.includes(value.type)) {
+        return value;
+    }
+    for (let type of accepts) {
+        const conversion = CONVERSIONS[value.type]?.[type];
+        const converted = conversion?.(value) ?? null;
+        if (converted != null) {
+            return converted;
+        }
+    }
+    return null;
+}
+
+/**
+ * Determine how values pass from an output handle to an input handle
+ * @param produces Types produced by the output handle; Absent if it may produce any type
+ * @param accepts Types accepted by the input handle; Absent if any type is accepted
+ * @returns Types that values are converted to, empty if no conversion is needed, or null if none of the produced types can be accepted
+ */
+export function connectionConversions(produces?: ValueType[], accepts?: ValueType[]): ValueType[] | null {
+    if (produces == undefined || accepts == undefined) {
+        return [];
+    }
+    let conversions = [] as ValueType[];
+    let compatible = false;
+    for (let type of produces) {
+        if (accepts.includes(type)) {
+            compatible = true;
+        } else {
+            const target = accepts.find((acceptedType) => CONVERSIONS[type]?.[acceptedType] != undefined);
+            if (target != undefined) {
+                compatible = true;
+                if (!conversions.includes(target)) {
+                    conversions.push(target);
+                }
+            }
+        }
+    }
+    return compatible ? conversions : null;
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import {createHash} from "crypto";
+import {NextRequest} from "next/server";
+import {loadPipeline} from "@/app/util/pipelinestore";
+import {serverMapperEnvironment} from "@/app/util/servercontext";
+import {executePipeline} from "@/app/feed/executor";
+import {FeedOutputConfig, FeedType} from "@/app/feed/mappers";
+import {nodeDefinition, NodeDefinition} from "@/app/feed/registry";
+import {valueText} from "@/app/feed/values";
+
+// Feeds are generated on request; Caching is left to feed readers and proxies, see FEED_CACHE_SECONDS
+export const dynamic = "force-dynamic";
+
+/**
+ * Number of seconds feed readers and proxies may cache a generated feed
+ *
+ * Configured through the FEED_CACHE_SECONDS environment variable as a non-negative integer (Default: 900, also used for invalid values)
+ */
+const FEED_CACHE_SECONDS = /^\d+$/.test(process.env.FEED_CACHE_SECONDS?.trim() ?? "") ? parseInt(process.env.FEED_CACHE_SECONDS as string) : 900;
+
+/**
+ * Content types for each feed type
+ */
+const FEED_CONTENT_TYPES: { [key in FeedType]: string } = {
+    [FeedType.RSS]: "application/rss+xml; charset=utf-8",
+    [FeedType.Atom]: "application/atom+xml; charset=utf-8",
+    [FeedType.JSONFeed]: "application/feed+json; charset=utf-8"
+};
+
+/**
+ * Serve the feed generated by a stored pipeline
+ *
+ * The pipeline is executed on the server, and the output of its Feed Output node is returned.
+ *
+ * @param request Incoming request, checked for If-None-Match
+ * @param pipelineId ID of the stored pipeline, see {@link loadPipeline}
+ */
+export async function GET(request: NextRequest, {params: {pipelineId}}: { params: { pipelineId: string } }) {
+    let pipeline;
+    try {
+        pipeline = await loadPipeline(pipelineId);
+    } catch (e) {
+        console.log("Invalid stored pipeline " + pipelineId + ": ", e);
+        return new Response("Stored pipeline is invalid", {status: 500});
+    }
+    if (pipeline == null) {
+        return new Response("Pipeline not found", {status: 404});
+    }
+
+    // Only top-level nodes have a result, see evaluatePipeline
+    const feedNode = pipeline.nodes.find((node) => node.type == "feedOutputNode" && node.parent == undefined);
+    if (feedNode == undefined) {
+        return new Response("Pipeline has no top-level Feed Output node", {status: 500});
+    }
+
+    let results;
+    try {
+        // Execution is cancelled if the client disconnects
+        results = await executePipeline(pipeline, serverMapperEnvironment, request.signal);
+    } catch (e) {
+        if (request.signal.aborted) {
+            // Nobody is left to receive the response; 499 as used by nginx for requests closed by the client
+            return new Response("Client closed request", {status: 499, headers: {"Cache-Control": "no-store"}});
+        }
+        console.log("Failed to execute stored pipeline " + pipelineId + ": ", e);
+        return new Response("Feed could not be generated: Pipeline execution failed", {status: 502, headers: {"Cache-Control": "no-store"}});
+    }
+    const feedResult = results[feedNode.id];
+    if (feedResult == undefined) {
+        return new Response("Feed could not be generated: Feed Output node was not evaluated", {status: 500, headers: {"Cache-Control": "no-store"}});
+    } else if (feedResult.kind == "error") {
+        return new Response("Feed could not be generated: " + feedResult.error, {status: 502, headers: {"Cache-Control": "no-store"}});
+    } else if (feedResult.kind == "pending") {
+        // Unreachable; Execution finishes once all nodes are evaluated
+        return new Response("Feed could not be generated", {status: 500, headers: {"Cache-Control": "no-store"}});
+    }
+
+    const feedText = valueText(feedResult.output["feed-out"][0]);
+    const {feedType} = {...(nodeDefinition("feedOutputNode") as NodeDefinition).defaultConfig, ...feedNode.config} as FeedOutputConfig;
+    const etag = '"' + createHash("sha256").update(feedText).digest("base64url") + '"';
+    const headers = {
+        "Content-Type": FEED_CONTENT_TYPES[feedType],
+        "Cache-Control": "public, max-age=" + FEED_CACHE_SECONDS,
+        "ETag": etag
+    };
+
+    if (request.headers.get("If-None-Match") == etag) {
+        return new Response(null, {status: 304, headers: headers});
+    } else {
+        return new Response(feedText, {status: 200, headers: headers});
+    }
+}
\ No newline at end of file
@@ -1,39 +1,30 @@
 "use client";
 
-import React, {ChangeEvent, ReactNode, useCallback, useEffect, useId, useRef, useState} from 'react';
-import {Handle, Position} from 'reactflow';
-import {client_fetch} from "@/app/util/client";
-import {newDocument} from "@/app/feed/feedgenerator";
-import {mapMessage, PipeMapper, PipeMessage, PipeState, PipeValue} from "@/app/feed/pipe";
-import {DemoInputNode} from "@/app/nodes/demonode";
-
-export interface Handles {
-    source: HandleInfo[],
-    target: HandleInfo[]
-}
-
-export interface HandleInfo {
-    /**
-     * Id for this handle, must be unique per node. Not displayed.
-     */
-    id: string,
-    /**
-     * Display name for this handle, may be shortened if longer than 5 characters.
-     */
-    label: string,
-    /**
-     * Handle group, absence indicates an ungrouped handle
-     */
-    group?: string,
-    /**
-     * True if this handle is optional, false or absent if not.
-     */
-    optional?: boolean
-}
+import React, {ComponentType, ReactNode, useEffect, useId, useRef, useState} from 'react';
+import {Handle, NodeProps, NodeResizer, Position, useNodeId, useUpdateNodeInternals} from 'reactflow';
+import {pipe_fetch} from "@/app/util/fetch";
+import {workerMapper} from "@/app/util/mapperworker";
+import {FeedFinding, feedFindingText} from "@/app/feed/feedvalidator";
+import {Progress} from "@/app/components/progress";
+import {HandleInfo, Handles, mapMessage, PipeMapper, PipeMessage, PipeState, PipeValue} from "@/app/feed/pipe";
+import {ConfigValue, NodeConfig} from "@/app/feed/pipeline";
+import {parseMacro} from "@/app/feed/macros";
+import {
+    ConfigField,
+    ConfigSchema,
+    createNodeMapper,
+    NodeDefinition,
+    nodeDefinition,
+    nodeDefinitions,
+    registerNodeEditor,
+    validateConfigText
+} from "@/app/feed/registry";
+import "@/app/plugins";
+import {FeedOutputConfig, FetchConfig, ForEachConfig, MacroConfig, MapperContext, mapperHandles} from "@/app/feed/mappers";
 
 export interface NodeProperties {
     /**
-     * Handles of this node, initialised from the 'handles' property on datanode react Components.
+     * Handles of this node, initialised from its node type's definition, see {@link nodeConfigHandles}.
      */
     handles: Handles,
     /**
@@ -44,7 +35,23 @@ export interface NodeProperties {
      * Callback for updating pipe state
      * @param update Update message describing new state
      */
-    onPipeUpdate: (update: PipeMessage<PipeMapper>) => void
+    onPipeUpdate: (update: PipeMessage<PipeMapper>) => void,
+    /**
+     * Current configuration of this node, initialised from its node type's {@link NodeDefinition.defaultConfig} or from a loaded pipeline.
+     *
+     * Nodes must not keep configuration in their own state, all changes are reported through {@link onConfigUpdate} so the pipeline can be saved.
+     */
+    config: NodeConfig,
+    /**
+     * Callback for updating node configuration
+     * @param nodeID ID of the node whose configuration changed
+     * @param config New configuration, replacing the previous configuration
+     */
+    onConfigUpdate: (nodeID: string, config: NodeConfig) => void,
+    /**
+     * Problems found in the generated feed, see {@link validateFeed}; Only set on the Feed Output node, by the editor once the feed is generated
+     */
+    feedFindings?: FeedFinding[]
 }
 
 /**
@@ -68,6 +75,229 @@ function truncateLabel(label: string): string {
     }
 }
 
+/**
+ * Hook that creates a node's data pipe from its configuration, firing a pipe update whenever the configuration changes
+ *
+ * Pipes that are created asynchronously are in pending state until created.
+ * If the configuration changes again before an asynchronous pipe (e.g. one that fetches data) is created, the outdated pipe and any progress reported by it are discarded
+ *
+ * @param nodeType Type of the node, see {@link nodeDefinition}
+ * @param nodeID ID of the node
+ * @param config Current configuration of the node
+ * @param onPipeUpdate Callback for updating pipe state
+ * @param onProgress Callback for progress of asynchronous work, see {@link MapperContext.progress}
+ */
+export function useNodeMapper(
+    nodeType: string,
+    nodeID: string,
+    config: NodeConfig,
+    onPipeUpdate: (update: PipeMessage<PipeMapper>) => void,
+    onProgress?: (value: number | null) => void
+) {
+    useEffect(() => {
+        let outdated = false;
+        let created = false;
+        // Nodes in the editor run in the browser, so use the browser's DOM
+        const context: MapperContext = {
+            dom: window,
+            fetch: pipe_fetch,
+            progress: (value) => {
+                if (outdated) {
+                    return;
+                }
+                // Progress while the pipe is being created is shown as pending state, afterwards it is progress of the mapper itself
+                if (created) {
+                    onProgress?.(value);
+                } else {
+                    onPipeUpdate({fromNode: nodeID, kind: PipeState.Pending, progress: value ?? undefined});
+                }
+            }
+        };
+        const definition = nodeDefinition(nodeType) as NodeDefinition;
+        const message = createNodeMapper(definition, nodeID, config, context);
+        if (message instanceof Promise) {
+            onPipeUpdate({fromNode: nodeID, kind: PipeState.Pending});
+        }
+        Promise.resolve(message)
+            .then((message) => {
+                created = true;
+                if (!outdated) {
+                    // The mapper created here validated the configuration, worker-safe mappers run in a worker to keep the editor responsive
+                    onPipeUpdate(definition.workerSafe ? mapMessage(message, () => workerMapper(nodeType, nodeID, config)) : message);
+                }
+            })
+            .catch((error) => {
+                created = true;
+                // Otherwise the node would stay pending
+                if (!outdated) {
+                    onPipeUpdate({fromNode: nodeID, kind: PipeState.Err, error: error instanceof Error ? error.message : String(error)});
+                }
+            });
+        return () => {
+            outdated = true;
+        };
+    }, [nodeType, nodeID, config, onPipeUpdate, onProgress]);
+}
+
+/**
+ * Input for a single configuration value, generated from its {@link ConfigField}
+ *
+ * Text is only validated and saved when the input loses focus; Invalid text is reported on the input and saved as null, so that the node is not evaluated with it.
+ * If the value is changed elsewhere (e.g. by undo), the entered text is replaced.
+ *
+ * @param name Configuration key of the value
+ * @param field Description of the value
+ * @param value Current value
+ * @param onChange Callback for updating the value
+ * @constructor
+ */
+function ConfigInput({name, field, value, onChange}: { name: string, field: ConfigField, value: ConfigValue, onChange: (value: ConfigValue) => void }) {
+    const inputID = useId();
+    const prevText = useRef(typeof value == "string" ? value : "");
+    const textInput = useRef(null as HTMLInputElement & HTMLTextAreaElement | null);
+    const savedValue = useRef(value);
+
+    useEffect(() => {
+        if (value !== savedValue.current && textInput.current != null) {
+            savedValue.current = value;
+            prevText.current = typeof value == "string" ? value : "";
+            textInput.current.value = prevText.current;
+            textInput.current.setCustomValidity("");
+        }
+    }, [value]);
+
+    switch (field.type) {
+        case "boolean":
+            return (
+                <div className="flex flex-row gap-1">
+                    <input type="checkbox" name={name} id={inputID} checked={value == true} onChange={() => onChange(value != true)}/>
+                    <label htmlFor={inputID}>{field.label}</label>
+                </div>
+            );
+        case "enum":
+            return (
+                <div className="flex flex-row gap-1">
+                    <label htmlFor={inputID}>{field.label}</label>
+                    <select
+                        id={inputID}
+                        name={name}
+                        value={typeof value == "string" ? value : ""}
+                        onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
+                            if (field.options?.includes(event.currentTarget.value)) {
+                                onChange(event.currentTarget.value);
+                            }
+                        }}
+                        className="nodrag border-gray-500 border-2 rounded ps-2"
+                        required
+                    >
+                        {(field.options ?? []).map((option) => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                </div>
+            );
+        case "number":
+            return (
+                <div className="flex flex-row gap-1">
+                    <label htmlFor={inputID}>{field.label}</label>
+                    <input
+                        id={inputID}
+                        name={name}
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        value={typeof value == "number" ? value : ""}
+                        onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+                            if (event.currentTarget.validity.valid && event.currentTarget.value.length > 0) {
+                                onChange(event.currentTarget.valueAsNumber);
+                            }
+                        }}
+                        className="nodrag w-16 border-gray-500 border-2 rounded valid:border-green-500 valid:bg-green-200 invalid:border-red-500 invalid:bg-red-200 ps-2"
+                        required
+                    />
+                </div>
+            );
+    }
+
+    function onBlur(event: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) {
+        const text = event.currentTarget.value;
+        // onBlur fires if the user clicks out of the input, but reporting invalid input sets focus back on this input; If the input is unchanged, do nothing to drop focus
+        if (text == prevText.current) {
+            return;
+        }
+        prevText.current = text;
+        if (text.length == 0) {
+            savedValue.current = null;
+            onChange(null);
+            return;
+        }
+        // Inputs in the editor run in the browser, so validate with the browser's DOM
+        const error = validateConfigText(field, text, window);
+        savedValue.current = error == null ? text : null;
+        onChange(savedValue.current);
+        event.currentTarget.setCustomValidity(error ?? "");
+        event.currentTarget.reportValidity();
+    }
+
+    const className = "nodrag border-gray-500 border-2 rounded valid:border-green-500 valid:bg-green-200 invalid:border-red-500 invalid:bg-red-200 ps-2 placeholder-gray-500";
+    return (
+        <>
+            <label htmlFor={inputID} hidden>{field.label}</label>
+            {field.multiline ? (
+                <textarea
+                    ref={textInput}
+                    id={inputID}
+                    name={name}
+                    placeholder={field.placeholder ?? field.label}
+                    onBlur={onBlur}
+                    defaultValue={typeof value == "string" ? value : ""}
+                    className={"resize " + className}
+                    required
+                />
+            ) : (
+                <input
+                    ref={textInput}
+                    id={inputID}
+                    name={name}
+                    type={field.type == "url" ? "url" : "text"}
+                    placeholder={field.placeholder ?? field.label}
+                    onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => {
+                        if (event.key === "Enter") {
+                            event.currentTarget.blur()
+                        }
+                    }}
+                    onBlur={onBlur}
+                    defaultValue={typeof value == "string" ? value : ""}
+                    className={className}
+                    required
+                />
+            )}
+        </>
+    );
+}
+
+/**
+ * Form for editing a node's configuration, generated from its {@link ConfigSchema}
+ *
+ * Values that are {@link ConfigField.hidden} or not currently {@link ConfigField.visible} are left out.
+ *
+ * @param schema Description of the configuration
+ * @param config Current configuration
+ * @param onConfigUpdate Callback for updating the configuration
+ * @constructor
+ */
+function ConfigForm({schema, config, onConfigUpdate}: { schema: ConfigSchema, config: NodeConfig, onConfigUpdate: (config: NodeConfig) => void }) {
+    return (
+        <>
+            {
+                Object.entries(schema)
+                    .filter(([, field]) => !field.hidden && (field.visible?.(config) ?? true))
+                    .map(([key, field]) =>
+                        <ConfigInput key={key} name={key} field={field} value={config[key]} onChange={(value) => onConfigUpdate({...config, [key]: value})}/>
+                    )
+            }
+        </>
+    );
+}
+
 /**
  * Basic node "template" component
  *
@@ -77,18 +307,36 @@ function truncateLabel(label: string): string {
  * @param label Label for this node
  * @param pipeValue Current data pipe state of this node, forwarded from ReactFlow node data
  * @param handles Handles of this node, forwarded from ReactFlow node data. (Entries may be omitted to hide handles in the editor)
+ * @param configSchema Optional description of this node's configuration, rendered as a form before the content, see {@link NodeDefinition.configSchema}
+ * @param config Current configuration of this node, edited by the form
+ * @param onConfigUpdate Callback for updating this node's configuration from the form
  * @param children Content of this node
+ * @param fill If true, the node fills the size set on its ReactFlow node instead of sizing to its content; For container nodes (Default: false)
+ * @param warnings Problems to show as a warning badge next to the label, e.g. findings of the feed validator
  * @constructor
  */
 export function BaseNode(
-    {selected, label, pipeValue, handles, children}:
-        { selected: boolean, label: string, pipeValue: PipeValue, handles: Handles, children?: ReactNode }
+    {selected, label, pipeValue, handles, configSchema, config, onConfigUpdate, children, fill = false, warnings}:
+        {
+            selected: boolean,
+            label: string,
+            pipeValue: PipeValue,
+            handles: Handles,
+            configSchema?: ConfigSchema,
+            config?: NodeConfig,
+            onConfigUpdate?: (config: NodeConfig) => void,
+            children?: ReactNode,
+            fill?: boolean,
+            warnings?: string[]
+        }
 ) {
     let borderColour;
     if (selected) {
         borderColour = " border-black";
     } else if (pipeValue.kind === PipeState.Err) {  // BadConfig state needs no highlighting; Individual inputs will be highlighted instead
         borderColour = " border-red-500";
+    } else if (pipeValue.kind === PipeState.Pending) {
+        borderColour = " border-blue-500";
     } else {
         borderColour = " border-gray-400";
     }
@@ -150,7 +398,7 @@ export function BaseNode(
                     key={handle.id} type={handleType} position={handleType == "target" ? Position.Left : Position.Right} id={handle.id}
                     className="px-1 flex items-center"
                     style={{top: `${handlePosition * handleOffset * 100}%`, backgroundColor: handle.optional ? HandleColours.Optional : HandleColours.Normal}}
-                    title={handle.label}
+                    title={handle.label + (handle.types != undefined ? " (" + handle.types.join(", ") + ")" : "")}
                 >
                     {truncateLabel(handle.label)}
                 </Handle>
@@ -180,7 +428,7 @@ export function BaseNode(
                         key={handle.id} type={handleType} position={handleType == "target" ? Position.Left : Position.Right} id={handle.id}
                         className="px-1 flex items-center"
                         style={{top: `${handlePosition * handleOffset * 100}%`, backgroundColor: handle.optional ? HandleColours.Optional : HandleColours.Normal}}
-                        title={handle.label}
+                        title={handle.label + (handle.types != undefined ? " (" + handle.types.join(", ") + ")" : "")}
                     >
                         {truncateLabel(handle.label)}
                     </Handle>
@@ -192,21 +440,37 @@ export function BaseNode(
         return [elements, handlePosition];
     }
 
+    // ReactFlow only measures handles when a node is added or resized, so measure again when configuration changes the handles
+    const nodeID = useNodeId();
+    const updateNodeInternals = useUpdateNodeInternals();
+    useEffect(() => {
+        if (nodeID != null) {
+            updateNodeInternals(nodeID);
+        }
+    }, [nodeID, handles, updateNodeInternals]);
+
     let [sourceHandles, sourceHandleCount] = renderHandles(handles.source, "source");
     let [targetHandles, targetHandleCount] = renderHandles(handles.target, "target");
 
     const sideHandleCount = Math.max(sourceHandleCount, targetHandleCount);
     return (
-        <div className={"flex flex-col bg-white gap-1 p-1 rounded border-[3px] " + borderColour}
+        <div className={"flex flex-col bg-white gap-1 p-1 rounded border-[3px] " + borderColour + (fill ? " w-full h-full" : "")}
              style={{
                  paddingLeft: paddingLeft,
                  paddingRight: paddingRight,
                  minHeight: ((sideHandleCount + 2) * 1.5) + "rem"
              }}
         >
-            <div>{label}</div>
+            <div className="flex flex-row gap-1 items-center">
+                {label}
+                {warnings != undefined && warnings.length > 0 ?
+                    <span className="rounded px-1 text-xs text-white bg-yellow-500" title={warnings.join("\n")}>⚠ {warnings.length}</span> : []}
+            </div>
             <div className="flex flex-col gap-1 items-left">
+                {configSchema != undefined && config != undefined && onConfigUpdate != undefined ?
+                    <ConfigForm schema={configSchema} config={config} onConfigUpdate={onConfigUpdate}/> : []}
                 {children != undefined ? children : []}
+                {pipeValue.kind === PipeState.Pending ? <Progress value={pipeValue.progress ?? null}/> : []}
             </div>
             {sourceHandles}
             {targetHandles}
@@ -215,603 +479,193 @@ export function BaseNode(
 }
 
 /**
- * Datasource node for retrieving HTML
+ * Datasource node for retrieving each URL from its input
  *
- * HTTP calls are proxied through the server to avoid CORS issues
+ * Fetches are performed several at a time, proxied through the server like other fetches if the deployment uses server fetch mode, see {@link pipe_fetch}.
+ * Failed fetches do not fail the node, but are listed on the error output.
  *
  * This component is managed by ReactFlow and not directly instantiated itself.
  *
  * @param nodeID This node's ID
  * @param selected True if this node is selected, False otherwise
  * @param pipeValue Current data pipe state of this node
- * @param handles Handles of this node, initialized from {@link HTMLInputNode.handles}
+ * @param handles Handles of this node, initialized from its {@link NodeDefinition.handles}
  * @param onPipeUpdate Callback for updating pipe state
+ * @param config Configuration of this node, see {@link FetchConfig}
+ * @param onConfigUpdate Callback for updating node configuration
  * @constructor
  */
-function HTMLInputNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
-    const inputID = useId();
+function FetchNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate, config, onConfigUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
+    const [progress, setProgress] = useState(null as number | null);
+    useNodeMapper("fetchNode", nodeID, config, onPipeUpdate, setProgress);
 
     return (
-        <BaseNode selected={selected} label={"HTML Input"} pipeValue={pipeValue} handles={handles}>
-            <label htmlFor={inputID} hidden>URL</label>
-            <input
-                id={inputID}
-                type="url"
-                placeholder="URL"
-                onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => {
-                    if (event.key === "Enter") {
-                        event.currentTarget.blur()
-                    }
-                }}
-                onBlur={(event: React.FocusEvent<HTMLInputElement>) => {
-                    if (event.currentTarget.validity.valid) {
-                        client_fetch(nodeID, event.currentTarget.value)
-                            .then((message) => {
-                                const callback = mapMessage(message, (documentText) => {
-                                    return (_input: { [key: string]: string[] }) => ({"html-out": [documentText]})
-                                })
-                                onPipeUpdate(callback)
-                            });
-                    } else {
-                        onPipeUpdate({
-                            fromNode: nodeID,
-                            kind: PipeState.BadConfig
-                        })
-                    }
-                }}
-                pattern="https?:\/\/.+\..+"
-                className="nodrag border-gray-500 border-2 rounded valid:border-green-500 valid:bg-green-200 invalid:border-red-500 invalid:bg-red-200 ps-2 placeholder-gray-500"
-                required
-            />
+        <BaseNode
+            selected={selected} label={"Fetch"} pipeValue={pipeValue} handles={handles}
+            configSchema={(nodeDefinition("fetchNode") as NodeDefinition).configSchema} config={config}
+            onConfigUpdate={(config) => onConfigUpdate(nodeID, config)}
+        >
+            {progress != null ? <Progress value={progress}/> : []}
         </BaseNode>
     );
 }
 
-HTMLInputNode.displayName = "HTML Input";
-HTMLInputNode.handles = {
-    source: [{id: "html-out", label: "HTML"}],
-    target: []
-} as Handles
-
 /**
- * Datasource node for static plaintext input
+ * Output node
+ *
+ * Takes input and generates an RSS, Atom or JSON Feed (depending on user configuration) web feed.
+ *
+ * The `feed-out` handle cannot be connected, and serves as final data output
  *
  * This component is managed by ReactFlow and not directly instantiated itself.
  *
  * @param nodeID This node's ID
  * @param selected True if this node is selected, False otherwise
  * @param pipeValue Current data pipe state of this node
- * @param handles Handles of this node, initialized from {@link TextInputNode.handles}
+ * @param handles Handles of this node, initialized from its {@link NodeDefinition.handles}
  * @param onPipeUpdate Callback for updating pipe state
+ * @param config Configuration of this node, see {@link FeedOutputConfig}
+ * @param onConfigUpdate Callback for updating node configuration
+ * @param feedFindings Problems found in the generated feed, shown as warning badge
  * @constructor
  */
-function TextInputNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
-    const inputID = useId();
+function FeedOutputNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate, config, onConfigUpdate, feedFindings}}: { id: string, selected: boolean, data: NodeProperties }) {
+    useNodeMapper("feedOutputNode", nodeID, config, onPipeUpdate);
 
     return (
-        <BaseNode selected={selected} label={"Text Input"} pipeValue={pipeValue} handles={handles}>
-            <label htmlFor={inputID} hidden>Text</label>
-            <textarea
-                id={inputID}
-                placeholder="Text"
-                onBlur={(event: React.FocusEvent<HTMLTextAreaElement>) => {
-                    if (event.currentTarget.validity.valid) {
-                        const text = event.currentTarget.value;
-                        onPipeUpdate({
-                            fromNode: nodeID,
-                            kind: PipeState.Ok,
-                            value: () => ({"text-out": [text]})
-                        })
-                    } else {
-                        onPipeUpdate({
-                            fromNode: nodeID,
-                            kind: PipeState.BadConfig
-                        })
-                    }
-                }}
-                className="nodrag resize border-gray-500 border-2 rounded valid:border-green-500 valid:bg-green-200 invalid:border-red-500 invalid:bg-red-200 ps-2 placeholder-gray-500"
-                required
-            />
-        </BaseNode>
+        // Pass only the target "input" handles to rendering. Output is special-case invisible for this node.
+        <BaseNode
+            selected={selected} label={"Feed Output"} pipeValue={pipeValue} handles={{target: handles.target, source: []}}
+            configSchema={(nodeDefinition("feedOutputNode") as NodeDefinition).configSchema} config={config}
+            onConfigUpdate={(config) => onConfigUpdate(nodeID, config)}
+            warnings={feedFindings?.map(feedFindingText)}
+        />
     );
 }
 
-TextInputNode.displayName = "Text Input";
-TextInputNode.handles = {
-    source: [{id: "text-out", label: "Text"}],
-    target: []
-} as Handles
-
 /**
- * Processing node for Regex matching
+ * Container node that evaluates the nodes within it once per input value
  *
- * Applies the specified regex against each input value, yielding matches (or captures)
+ * Contains an Item node, which outputs the current input value, and a Result node, whose input is collected as output of this node; See {@link FOR_EACH_NODE}.
+ * This scopes extraction to a single item, e.g. the outer HTML of one `.item` element, so that the values extracted from it stay together.
  *
  * This component is managed by ReactFlow and not directly instantiated itself.
  *
  * @param nodeID This node's ID
  * @param selected True if this node is selected, False otherwise
  * @param pipeValue Current data pipe state of this node
- * @param handles Handles of this node, initialized from {@link RegexNode.handles}
+ * @param handles Handles of this node, initialized from its {@link NodeDefinition.handles}
  * @param onPipeUpdate Callback for updating pipe state
+ * @param config Configuration of this node, see {@link ForEachConfig}
+ * @param onConfigUpdate Callback for updating node configuration
  * @constructor
  */
-function RegexNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
-    const inputID = useId();
-    const ignorecaseFlagID = useId();
-    const multilineFlagID = useId();
-    const dotallFlagID = useId();
-    const unicodeFlagID = useId();
-
-    const prevRegex = useRef("");
-    const [regexString, setRegex] = useState(null as string | null);
-    const [regexOptions, setOptions] = useState(
-        {
-            ignorecase: false,
-            multiline: false,
-            dotall: false,
-            unicode: false
-        } as { [key: string]: boolean }
-    );
+function ForEachNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate, config, onConfigUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
+    const forEachConfig = config as ForEachConfig;
 
-    const updateCheckbox = useCallback((event: ChangeEvent<HTMLInputElement>) => {
-        const name = event.currentTarget.name;
-        setOptions((options) => ({...options, [name]: !options[name]}))
-    }, [])
-
-    useEffect(() => {
-        if (regexString != null) {
-            try {
-                let flags = "g"
-                    + (regexOptions.ignorecase ? "i" : "")
-                    + (regexOptions.multiline ? "m" : "")
-                    + (regexOptions.dotall ? "s" : "")
-                    + (regexOptions.unicode ? "u" : "");
-
-                const regexp = new RegExp(regexString, flags);
-
-                function map(input: { [key: string]: string[] }): { [key: string]: string[] } {
-                    let {"data-in": values} = input;
-                    const output = values.flatMap((value) => {
-                        let out = [];
-                        for (let match of value.matchAll(regexp)) {
-                            if (match.length > 1) { // If using captures, skip 0th "global" capture group
-                                out.push(...match.slice(1))
-                            } else { // No capture groups; Push the global match
-                                out.push(...match);
-                            }
-                        }
-                        return out;
-                    });
-                    return {"data-out": output}
-                }
-
-                onPipeUpdate({
-                    fromNode: nodeID,
-                    kind: PipeState.Ok,
-                    value: map
-                })
-            } catch (error) {
-                onPipeUpdate({
-                    fromNode: nodeID,
-                    kind: PipeState.Err,
-                    error: (error as Error).message
-                })
-            }
-        } else {
-            onPipeUpdate({
-                fromNode: nodeID,
-                kind: PipeState.BadConfig
-            })
-        }
-    }, [regexString, regexOptions, onPipeUpdate, nodeID]);
+    useNodeMapper("forEachNode", nodeID, config, onPipeUpdate);
 
     return (
-        <BaseNode selected={selected} label={"Regex"} pipeValue={pipeValue} handles={handles}>
-            <label htmlFor={inputID} hidden>Regex</label>
-            <input
-                id={inputID}
-                name="regex"
-                type="text"
-                placeholder="regex"
-                onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => {
-                    if (event.key === "Enter") {
-                        event.currentTarget.blur()
-                    }
-                }}
-                onBlur={(event: React.FocusEvent<HTMLInputElement>) => {
-                    const regex = event.currentTarget.value;
-                    if (regex.length > 0 && regex != prevRegex.current) {   // onBlur fires if the user clicks out of the input, but reporting invalid input sets focus back on this input; If the input is unchanged, do nothing to drop focus
-                        prevRegex.current = regex;
-                        try {
-                            new RegExp(regex);
-                            setRegex(regex);
-                            event.currentTarget.setCustomValidity("");
-                            event.currentTarget.reportValidity();
-                        } catch (e) {
-                            console.log(e);
-                            setRegex(null);
-                            event.currentTarget.setCustomValidity("Invalid Regex");
-                            event.currentTarget.reportValidity();
-                        }
-                    }
+        <>
+            <NodeResizer
+                isVisible={selected}
+                minWidth={240}
+                minHeight={160}
+                onResizeEnd={(_event, {width, height}) => {
+                    onConfigUpdate(nodeID, {...forEachConfig, width: Math.round(width), height: Math.round(height)});
                 }}
-                className="nodrag border-gray-500 border-2 rounded valid:border-green-500  valid:bg-green-200 invalid:border-red-500 invalid:bg-red-200 ps-2"
-                required
             />
-            <div className="flex flex-row gap-1">
-                <input type="checkbox" name="ignorecase" id={ignorecaseFlagID} checked={regexOptions.ignorecase} onChange={updateCheckbox}/>
-                <label htmlFor={ignorecaseFlagID}>Ignore Case</label>
-            </div>
-            <div className="flex flex-row gap-1">
-                <input type="checkbox" name="multiline" id={multilineFlagID} checked={regexOptions.multiline} onChange={updateCheckbox}/>
-                <label htmlFor={multilineFlagID}>Multi-line</label>
-            </div>
-            <div className="flex flex-row gap-1">
-                <input type="checkbox" name="dotall" id={dotallFlagID} checked={regexOptions.dotall} onChange={updateCheckbox}/>
-                <label htmlFor={dotallFlagID}>Dot matches newline</label>
-            </div>
-            <div className="flex flex-row gap-1">
-                <input type="checkbox" name="unicode" id={unicodeFlagID} checked={regexOptions.unicode} onChange={updateCheckbox}/>
-                <label htmlFor={unicodeFlagID}>Unicode</label>
-            </div>
-        </BaseNode>
+            <BaseNode selected={selected} label={"For Each"} pipeValue={pipeValue} handles={handles} fill={true}/>
+        </>
     );
 }
 
-RegexNode.displayName = "Regex";
-RegexNode.handles = {
-    source: [{id: "data-out", label: "OUT"}],
-    target: [{id: "data-in", label: "IN"}]
-} as Handles
-
-enum ParseMode {
-    HTML = "HTML",
-    XML = "XML"
-}
-
 /**
- * Processing node for XPath matching
+ * Reusable sub-pipeline, collapsed into a single node
  *
- * Applies the specified XPath against the input, each input parsed as an XML or HTML document depending on user configuration.
- * If input is not valid XML or HTML, that input value is ignored.
+ * Handles are derived from the macro's definition, see {@link MacroDefinition}; The editor can expand the macro back into its nodes.
  *
  * This component is managed by ReactFlow and not directly instantiated itself.
  *
  * @param nodeID This node's ID
  * @param selected True if this node is selected, False otherwise
  * @param pipeValue Current data pipe state of this node
- * @param handles Handles of this node, initialized from {@link XPathNode.handles}
+ * @param handles Handles of this node, derived from its configuration, see {@link nodeConfigHandles}
  * @param onPipeUpdate Callback for updating pipe state
+ * @param config Configuration of this node, see {@link MacroConfig}
  * @constructor
  */
-function XPathNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
-    const inputID = useId();
-    const parseSelectID = useId();
-
-    const prevXpath = useRef("");
-    const [xpathString, setXPath] = useState(null as string | null);
-    const [parseMode, setParseMode] = useState(ParseMode.HTML);
-
-    useEffect(() => {
-        if (xpathString != null) {
-            try {
-                function map(input: { [key: string]: string[] }): { [key: string]: string[] } {
-                    let {"data-in": values} = input;
-                    let output = [] as string[];
-                    let parser = new DOMParser();
-
-                    for (let value of values) {
-                        try {
-                            let document = parser.parseFromString(value, parseMode == ParseMode.HTML ? "text/html" : "text/xml");
-                            let xPathResult = document.evaluate(xpathString as string, document, null, XPathResult.ANY_TYPE);
-
-                            switch (xPathResult.resultType) {
-                                case XPathResult.NUMBER_TYPE:
-                                    output.push(xPathResult.numberValue.toString())
-                                    break;
-                                case XPathResult.STRING_TYPE:
-                                    output.push(xPathResult.stringValue)
-                                    break;
-                                case XPathResult.BOOLEAN_TYPE:
-                                    output.push(xPathResult.booleanValue.toString())
-                                    break;
-                                case XPathResult.UNORDERED_NODE_ITERATOR_TYPE:
-                                    let node = xPathResult.iterateNext();
-                                    while (node) {
-                                        if (node instanceof Element) {
-                                            output.push(node.outerHTML);
-                                        } else if (node instanceof Text) {
-                                            output.push(node.wholeText.trim());
-                                        }
-                                        node = xPathResult.iterateNext();
-                                    }
-                                    break;
-                            }
-                        } catch (e) {
-                            // Silently drop input
-                        }
-                    }
-                    return {"data-out": output}
-                }
-
-                onPipeUpdate({
-                    fromNode: nodeID,
-                    kind: PipeState.Ok,
-                    value: map
-                })
-            } catch (error) {
-                onPipeUpdate({
-                    fromNode: nodeID,
-                    kind: PipeState.Err,
-                    error: (error as Error).message
-                })
-            }
-        } else {
-            onPipeUpdate({
-                fromNode: nodeID,
-                kind: PipeState.BadConfig
-            })
+function MacroNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate, config}}: { id: string, selected: boolean, data: NodeProperties }) {
+    const {macro: macroText} = config as MacroConfig;
+    let name = "Macro";
+    let nodeCount = 0;
+    try {
+        if (macroText != null) {
+            const macro = parseMacro(macroText);
+            name = macro.name;
+            nodeCount = macro.pipeline.nodes.length;
         }
-    }, [xpathString, parseMode, onPipeUpdate, nodeID]);
+    } catch (e) {
+        // Invalid definitions are reported through the pipe state
+    }
+
+    useNodeMapper("macroNode", nodeID, config, onPipeUpdate);
 
     return (
-        <BaseNode selected={selected} label={"XPath"} pipeValue={pipeValue} handles={handles}>
-            <label htmlFor={inputID} hidden>XPath</label>
-            <input
-                id={inputID}
-                name="xpath"
-                type="text"
-                placeholder="XPath"
-                onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => {
-                    if (event.key === "Enter") {
-                        event.currentTarget.blur()
-                    }
-                }}
-                onBlur={(event: React.FocusEvent<HTMLInputElement>) => {
-                    const xpath = event.currentTarget.value;
-                    if (xpath.length > 0 && xpath != prevXpath.current) {   // onBlur fires if the user clicks out of the input, but reporting invalid input sets focus back on this input; If the input is unchanged, do nothing to drop focus
-                        prevXpath.current = xpath;
-                        try {
-                            const emptyDocument = new Document();
-                            emptyDocument.evaluate(xpath, emptyDocument);
-                            setXPath(xpath);
-                            event.currentTarget.setCustomValidity("");
-                            event.currentTarget.reportValidity();
-                        } catch (e) {
-                            setXPath(null);
-                            event.currentTarget.setCustomValidity("Invalid XPath");
-                            event.currentTarget.reportValidity();
-                        }
-                    }
-                }}
-                className="nodrag border-gray-500 border-2 rounded valid:border-green-500  valid:bg-green-200 invalid:border-red-500 invalid:bg-red-200 ps-2"
-                required
-            />
-            <div className="flex flex-row gap-1">
-                <label htmlFor={parseSelectID}>Feed type</label>
-                <select
-                    id={parseSelectID}
-                    name="parsemode"
-                    placeholder="Parsing mode"
-                    value={parseMode}
-                    onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
-                        if (ParseMode[event.currentTarget.value as ParseMode]) {
-                            setParseMode(event.currentTarget.value as ParseMode);
-                        } else {
-                            // Reset? Do nothing?
-                        }
-                    }}
-                    className="nodrag border-gray-500 border-2 rounded ps-2"
-                    required
-                >
-                    {
-                        Object.entries(ParseMode)
-                            .map(([index, label], key) => <option key={key} value={index}>{label}</option>)
-                    }
-                </select>
-            </div>
+        <BaseNode selected={selected} label={name} pipeValue={pipeValue} handles={handles}>
+            <div className="text-sm text-gray-600">Macro of {nodeCount} nodes</div>
         </BaseNode>
     );
 }
 
-XPathNode.displayName = "XPath";
-XPathNode.handles = {
-    source: [{id: "data-out", label: "OUT"}],
-    target: [{id: "data-in", label: "IN"}]
-} as Handles
-
-enum FeedType {
-    RSS = "RSS",
-    Atom = "Atom"
-}
-
 /**
- * Output node
+ * Editor for node types without a custom editor, see {@link NodeDefinition.editor}
  *
- * Takes input and generates an RSS or Atom (depending on user configuration) web feed.
- *
- * The `feed-out` handle cannot be connected, and serves as final data output
+ * Configuration is edited through a form generated from the node type's {@link NodeDefinition.configSchema}.
  *
  * This component is managed by ReactFlow and not directly instantiated itself.
  *
  * @param nodeID This node's ID
+ * @param nodeType This node's type
  * @param selected True if this node is selected, False otherwise
  * @param pipeValue Current data pipe state of this node
- * @param handles Handles of this node, initialized from {@link FeedOutputNode.handles}
+ * @param handles Handles of this node, initialized from its {@link NodeDefinition.handles}
  * @param onPipeUpdate Callback for updating pipe state
+ * @param config Configuration of this node
+ * @param onConfigUpdate Callback for updating node configuration
  * @constructor
  */
-function FeedOutputNode({id: nodeID, selected, data: {pipeValue, handles, onPipeUpdate}}: { id: string, selected: boolean, data: NodeProperties }) {
-    const [feedType, setFeedType] = useState(FeedType.RSS);
-
-    const feedTypeInputID = useId();
-
-    useEffect(() => {
-        try {
-            function map(input: { [key: string]: string[] }): { [key: string]: string[] } {
-                let {
-                    "title": titleList,
-                    "link": linkList,
-                    "description": descriptionList,
-                    "language": languageList,
-                    "item-title": itemTitle,
-                    "item-link": itemLink,
-                    "item-description": itemDescription,
-                    "item-author": itemAuthor
-                } = input as {
-                    title: string[],
-                    link: string[],
-                    description: string[],
-                    language?: string[],
-                    "item-title": string[],
-                    "item-link": string[],
-                    "item-description"?: string[],
-                    "item-author"?: string[]
-                };
-
-                let [feedDocument, E] = newDocument();
-                switch (feedType) {
-                    case FeedType.Atom: {
-                        let items = [] as Element[];
-
-                        let itemCount = Math.max(itemTitle.length, itemDescription?.length ?? 0);
-                        for (let i = 0; i < itemCount; i++) {
-                            items.push(E("entry", [
-                                ...itemTitle[i] != undefined ? [E("title", [], {type: "text"}, itemTitle[i])] : [],
-                                ...itemLink[i] != undefined ? [E("link", [], {href: itemLink[i]})] : [],
-                                ...itemDescription?.[i] != undefined ? [E("summary", [], {type: "text"}, itemDescription[i])] : [],
-                                ...itemAuthor?.[i] != undefined ? [E("author", [E("name", [], {type: "text"}, itemAuthor[i])])] : [],
-                            ]))
-                        }
-
-                        let rss = E(
-                            "feed",
-                            [
-                                E("title", [], {type: "text"}, titleList[0]),
-                                E("subtitle", [], {type: "text"}, descriptionList[0]),
-                                E("link", [], {href: linkList[0]}),
-                                ...items
-                            ],
-                            {
-                                xmlns: "http://www.w3.org/2005/Atom",
-                                ...languageList != undefined ? { lang: languageList[0]} : {}
-                            }
-                        );
-                        feedDocument.appendChild(rss);
-                        break;
-                    }
-                    case FeedType.RSS: {
-                        let items = [] as Element[];
-
-                        let itemCount = Math.max(itemTitle.length, itemDescription?.length ?? 0);
-                        for (let i = 0; i < itemCount; i++) {
-                            items.push(E("item", [
-                                ...itemTitle[i] != undefined ? [E("title", [], {}, itemTitle[i])] : [],
-                                ...itemLink[i] != undefined ? [E("link", [], {}, itemLink[i])] : [],
-                                ...itemDescription?.[i] != undefined ? [E("description", [], {}, itemDescription[i])] : [],
-                                ...itemAuthor?.[i] != undefined ? [E("author", [], {}, itemAuthor[i])] : [],
-                            ]))
-                        }
-
-                        let rss = E("rss", [
-                            E("channel", [
-                                E("title", [], {}, titleList[0]),
-                                E("link", [], {}, linkList[0]),
-                                E("description", [], {}, descriptionList[0]),
-                                ...languageList != undefined ? [E("language", [], {}, languageList[0])] : [],
-                                ...items
-                            ])
-                        ]);
-                        feedDocument.appendChild(rss);
-                        break;
-                    }
-                }
+function GenericNode({id: nodeID, type: nodeType, selected, data: {pipeValue, handles, onPipeUpdate, config, onConfigUpdate}}: { id: string, type: string, selected: boolean, data: NodeProperties }) {
+    const definition = nodeDefinition(nodeType);
 
-
-                return {"feed-out": [new XMLSerializer().serializeToString(feedDocument)]}
-            }
-
-            onPipeUpdate({
-                fromNode: nodeID,
-                kind: PipeState.Ok,
-                value: map
-            })
-        } catch (error) {
-            onPipeUpdate({
-                fromNode: nodeID,
-                kind: PipeState.Err,
-                error: (error as Error).message
-            })
-        }
-    }, [feedType, nodeID, onPipeUpdate]);
+    useNodeMapper(nodeType, nodeID, config, onPipeUpdate);
 
     return (
-        // Pass only the target "input" handles to rendering. Output is special-case invisible for this node.
-        <BaseNode selected={selected} label={"Feed Output"} pipeValue={pipeValue} handles={{target: handles.target, source: []}}>
-            <div className="flex gap-1">
-                <label htmlFor={feedTypeInputID}>Feed type</label>
-                <select
-                    id={feedTypeInputID}
-                    name="feedtype"
-                    placeholder="Feed type"
-                    value={feedType}
-                    onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
-                        if (FeedType[event.currentTarget.value as FeedType]) {
-                            setFeedType(event.currentTarget.value as FeedType);
-                        } else {
-                            // Reset? Do nothing?
-                        }
-                    }}
-                    className="nodrag border-gray-500 border-2 rounded ps-2"
-                    required
-                >
-                    {
-                        Object.entries(FeedType)
-                            .map(([index, label], key) => <option key={key} value={index}>{label}</option>)
-                    }
-                </select>
-            </div>
-        </BaseNode>
+        <BaseNode
+            selected={selected} label={definition?.displayName ?? nodeType} pipeValue={pipeValue} handles={handles}
+            configSchema={definition?.configSchema} config={config}
+            onConfigUpdate={(config) => onConfigUpdate(nodeID, config)}
+        />
     );
 }
 
-FeedOutputNode.handles = {
-    source: [{id: "feed-out", label: "Feed"}],
-    target: [
-        {id: "title", label: "Title", group: "feed"},
-        {id: "link", label: "Link", group: "feed"},
-        {id: "description", label: "Description", group: "feed"},
-        {id: "language", label: "Language", group: "feed", optional: true},
-        {id: "item-title", label: "Title", group: "item"},
-        {id: "item-link", label: "Link", group: "item"},
-        {id: "item-description", label: "Description", group: "item", optional: true},
-        {id: "item-author", label: "Author", group: "item", optional: true},
-    ]
-} as Handles
+registerNodeEditor("fetchNode", FetchNode);
+registerNodeEditor("forEachNode", ForEachNode);
+registerNodeEditor("macroNode", MacroNode);
+registerNodeEditor("feedOutputNode", FeedOutputNode);
 
 /**
- * Export a mapping of nodeTypes for ReactFlow
+ * Mapping of nodeTypes for ReactFlow, generated from the node registry; Node types registered after this module is loaded are not included
  */
-export const nodeTypes = {
-    demoInputNode: DemoInputNode,
-    htmlInputNode: HTMLInputNode,
-    textInputNode: TextInputNode,
-    regexNode: RegexNode,
-    xpathNode: XPathNode,
-    feedOutputNode: FeedOutputNode
-};
+export const nodeTypes: { [key: string]: ComponentType<NodeProps<NodeProperties>> } = Object.fromEntries(
+    nodeDefinitions().map((definition) => [definition.type, definition.editor ?? GenericNode])
+);
 
 /**
- * Generated mapping of nodeHandles, assumes each node React Component function has a 'handles' property
+ * Handles of a node; Usually those of its type, but for some node types (e.g. macros) they depend on the node's configuration
+ * @param nodeType Type of the node
+ * @param config Configuration of the node
  */
-export const nodeHandles: { [key: string]: Handles } = Object.fromEntries(
-    Object.entries(nodeTypes)
-        .map(([name, component]) => {
-            if (component.handles != undefined) {
-                return [name, component.handles];
-            } else {
-                throw new Error("Each node must have handles specified!")
-            }
-        })
-)
\ No newline at end of file
+export function nodeConfigHandles(nodeType: string, config: NodeConfig): Handles {
+    return mapperHandles(nodeDefinition(nodeType) as NodeDefinition, config);
+}
\ No newline at end of file
@@ -1,11 +1,28 @@
 "use client";
 
-import React, {ReactNode, useCallback, useRef, useState} from 'react';
-import ReactFlow, {addEdge, applyEdgeChanges, applyNodeChanges, Background, BackgroundVariant, Connection, Controls, Edge, EdgeChange, Node, NodeChange,} from 'reactflow';
+import React, {ReactNode, useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import ReactFlow, {addEdge, applyEdgeChanges, applyNodeChanges, Background, BackgroundVariant, Connection, Controls, Edge, EdgeChange, Node, NodeChange, NodeRemoveChange, ReactFlowInstance,} from 'reactflow';
 
 import 'reactflow/dist/style.css';
-import {HandleColours, HandleInfo, nodeHandles, NodeProperties, nodeTypes} from "@/app/nodes/nodes";
-import {PipeMapper, PipeMessage, PipeState} from "@/app/feed/pipe";
+import {HandleColours, nodeConfigHandles, NodeProperties, nodeTypes} from "@/app/nodes/nodes";
+import {HandleInfo, PipeData, PipeMapper, PipeMessage, PipeState} from "@/app/feed/pipe";
+import {connectionConversions, ValueType, valueText} from "@/app/feed/values";
+import {NodeConfig, parsePipeline, PipelineDocument, PipelineEdge, PipelineNode, serializePipeline} from "@/app/feed/pipeline";
+import {
+    CacheEntry,
+    EvaluationNode,
+    evaluatePipeline,
+    FOR_EACH_NODE,
+    ITERATION_ITEM_NODE,
+    ITERATION_RESULT_NODE,
+    PreviousEvaluation
+} from "@/app/feed/executor";
+import {createMacro, MACRO_NODE, MacroDefinition, macroHandleID, parseMacro, serializeMacro} from "@/app/feed/macros";
+import {loadMacroLibrary, storeMacro} from "@/app/util/macrolibrary";
+import {NodeDefinition, nodeDefinition, nodeDefinitions} from "@/app/feed/registry";
+import {useHistory} from "@/app/util/history";
+import {createsCycle, validatePipeline, ValidationFinding} from "@/app/feed/validation";
+import {FeedFinding, feedFindingText, validateFeed} from "@/app/feed/feedvalidator";
 
 /**
  * Create a new ReactFlow-compliant Node object
@@ -14,24 +31,37 @@ import {PipeMapper, PipeMessage, PipeState} from "@/app/feed/pipe";
  * @param type Node type
  * @param position Display position for this node
  * @param deletable If true, node can be deleted by the user
+ * @param config Initial configuration of this node
  * @param onPipeUpdate Callback for updating pipe state
+ * @param onConfigUpdate Callback for updating node configuration
+ * @param parent ID of the for-each node containing this node, if any; Position is then relative to the parent
  */
 function newNode(
     id: string,
     type: string,
     position: { x: number, y: number },
     deletable: boolean,
-    onPipeUpdate: (message: PipeMessage<PipeMapper>) => void
+    config: NodeConfig,
+    onPipeUpdate: (message: PipeMessage<PipeMapper>) => void,
+    onConfigUpdate: (nodeID: string, config: NodeConfig) => void,
+    parent?: string
 ): Node<NodeProperties> {
     return {
         id: id,
         type: type,
         position: position,
         deletable: deletable,
+        ...parent != undefined ? {parentNode: parent} : {},
+        // Item and result nodes cannot be moved out of their for-each node
+        ...type == ITERATION_ITEM_NODE || type == ITERATION_RESULT_NODE ? {extent: "parent"} : {},
+        // For-each nodes keep their size in their configuration, so that it is saved with the pipeline
+        ...type == FOR_EACH_NODE ? {style: {width: config.width as number, height: config.height as number}} : {},
         data: {
             pipeValue: {kind: PipeState.BadConfig},
             onPipeUpdate: onPipeUpdate,
-            handles: nodeHandles[type]
+            handles: nodeConfigHandles(type, config),
+            config: config,
+            onConfigUpdate: onConfigUpdate
         }
     }
 }
@@ -63,23 +93,113 @@ function InspectBoxMessage({isError = false, children}: { isError?: boolean, chi
 }
 
 /**
- * Editor's node selection bar
- * @param nodeTypes Array of node types and their displayName (These can be derived from {@link nodeTypes}
+ * Editor's node selection bar, listing node types grouped by category
+ * @param nodeTypes Definitions of the node types to list, see {@link nodeDefinitions}
  * @param addNode Callback to add a node
+ * @param macros Names of the macros in the macro library
+ * @param addMacro Callback to add a macro node, by index into the macro library
  * @constructor
  */
-function NodeBar({nodeTypes, addNode}: { nodeTypes: [string, string][], addNode: (nodeType: string) => void }) {
+function NodeBar({nodeTypes, addNode, macros, addMacro}: { nodeTypes: NodeDefinition[], addNode: (nodeType: string) => void, macros: string[], addMacro: (index: number) => void }) {
+    // Categories are listed in order of their first node type
+    let categories = {} as { [key: string]: NodeDefinition[] };
+    for (let definition of nodeTypes) {
+        (categories[definition.category] = (categories[definition.category] ?? []))
+            .push(definition);
+    }
+
     return (
         <div className="flex flex-wrap divide-x divide-gray-900">
-            {nodeTypes.map(([nodeType, nodeName], idx) => {
-                return <button
-                    className="flex-grow bg-gray-400 hover:bg-gray-500"
-                    key={idx}
-                    onClick={() => addNode(nodeType)}
-                >
-                    {nodeName}
-                </button>
+            {Object.entries(categories).map(([category, definitions]) => {
+                return <div key={category} className="flex flex-row flex-grow divide-x divide-gray-900">
+                    <div className="px-2 bg-gray-300">{category}</div>
+                    {definitions.map((definition) => {
+                        return <button
+                            className="flex-grow px-1 bg-gray-400 hover:bg-gray-500"
+                            key={definition.type}
+                            onClick={() => addNode(definition.type)}
+                        >
+                            {definition.displayName}
+                        </button>
+                    })}
+                </div>
             })}
+            {macros.length > 0 ? <div className="flex flex-row flex-grow divide-x divide-gray-900">
+                <div className="px-2 bg-gray-300">Macros</div>
+                {macros.map((macroName, idx) => {
+                    return <button
+                        className="flex-grow px-1 bg-blue-300 hover:bg-blue-400"
+                        key={idx}
+                        onClick={() => addMacro(idx)}
+                    >
+                        {macroName}
+                    </button>
+                })}
+            </div> : null}
+        </div>
+    )
+}
+
+/**
+ * Editor toolbar for undoing changes, copying nodes, cancelling evaluation, saving and loading pipelines, and for creating and expanding macros
+ * @param onUndo Callback to undo the last change, absent if there is nothing to undo
+ * @param onRedo Callback to redo the last undone change, absent if there is nothing to redo
+ * @param onCut Callback to cut the selected nodes to the clipboard, absent if nothing is selected
+ * @param onCopy Callback to copy the selected nodes to the clipboard, absent if nothing is selected
+ * @param onPaste Callback to paste nodes from the clipboard
+ * @param onDuplicate Callback to duplicate the selected nodes, absent if nothing is selected
+ * @param onCancel Callback to cancel the running pipeline evaluation, absent if no evaluation is running
+ * @param onExport Callback to export the current pipeline
+ * @param onImport Callback to import a pipeline from the selected file
+ * @param onCollapse Callback to collapse the selected nodes into a macro, absent if nothing is selected
+ * @param onExpand Callback to expand the selected macro node, absent if no macro node is selected
+ * @constructor
+ */
+function Toolbar(
+    {onUndo, onRedo, onCut, onCopy, onPaste, onDuplicate, onCancel, onExport, onImport, onCollapse, onExpand}:
+        {
+            onUndo?: () => void,
+            onRedo?: () => void,
+            onCut?: () => void,
+            onCopy?: () => void,
+            onPaste: () => void,
+            onDuplicate?: () => void,
+            onCancel?: () => void,
+            onExport: () => void,
+            onImport: (file: File) => void,
+            onCollapse?: () => void,
+            onExpand?: () => void
+        }
+) {
+    const fileInput = useRef(null as HTMLInputElement | null);
+
+    return (
+        <div className="flex flex-row divide-x divide-gray-900 bg-gray-300">
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onUndo == undefined} onClick={onUndo} title="Ctrl+Z">Undo</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onRedo == undefined} onClick={onRedo} title="Ctrl+Shift+Z">Redo</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onCut == undefined} onClick={onCut} title="Ctrl+X">Cut</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onCopy == undefined} onClick={onCopy} title="Ctrl+C">Copy</button>
+            <button className="px-2 hover:bg-gray-400" onClick={onPaste} title="Ctrl+V">Paste</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onDuplicate == undefined} onClick={onDuplicate} title="Ctrl+D">Duplicate</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onCancel == undefined} onClick={onCancel}>Cancel evaluation</button>
+            <button className="px-2 hover:bg-gray-400" onClick={onExport}>Export</button>
+            <button className="px-2 hover:bg-gray-400" onClick={() => fileInput.current?.click()}>Import</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onCollapse == undefined} onClick={onCollapse}>Collapse into macro</button>
+            <button className="px-2 hover:bg-gray-400 disabled:text-gray-500 disabled:hover:bg-gray-300" disabled={onExpand == undefined} onClick={onExpand}>Expand macro</button>
+            <input
+                ref={fileInput}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+                    const file = event.currentTarget.files?.[0];
+                    if (file != undefined) {
+                        onImport(file);
+                    }
+                    // Reset so that selecting the same file again fires another change event
+                    event.currentTarget.value = "";
+                }}
+            />
         </div>
     )
 }
@@ -90,7 +210,7 @@ function NodeBar({nodeTypes, addNode}: { nodeTypes: [string, string][], addNode:
  * @param pipe Data pipe to preview
  * @constructor
  */
-function InspectBoxPreview({handles, pipe}: { handles: HandleInfo[], pipe: { [key: string]: string[] } }) {
+function InspectBoxPreview({handles, pipe}: { handles: HandleInfo[], pipe: PipeData }) {
     let ungroupedHandles = [] as HandleInfo[];
     let groupedHandles = {} as { [key: string]: HandleInfo[] };
 
@@ -108,7 +228,7 @@ function InspectBoxPreview({handles, pipe}: { handles: HandleInfo[], pipe: { [ke
      * @param handles Subset of handles to render as a group
      * @param pipe Pipe value from {@link InspectBoxPreview} parameters
      */
-    function renderGroup(handles: HandleInfo[], pipe: { [key: string]: string[] }) {
+    function renderGroup(handles: HandleInfo[], pipe: PipeData) {
         return handles.map((handle) => {
             let handleColor = handle.optional ? HandleColours.Optional : HandleColours.Normal;
             let values = pipe[handle.id];
@@ -135,18 +255,30 @@ function InspectBoxPreview({handles, pipe}: { handles: HandleInfo[], pipe: { [ke
                     <div className="p-1 rounded-br text-white" style={{backgroundColor: handleColor}}>{handle.label}</div>
                     <div className="flex flex-col w-full divide-y-2 divide-gray-400">
                         {
-                            values.map((valueString, idx) => {
-                                if (valueString.length == 0) {
-                                    return <div key={idx} className="m-1"><i>&lt;empty string&gt;</i></div>
+                            values.map((value, idx) => {
+                                const valueString = valueText(value);
+                                let content;
+                                if (value.type == ValueType.Record) {
+                                    content = <div className="flex flex-col">
+                                        {Object.entries(value.value).map(([field, fieldValues]) =>
+                                            <div key={field}><b>{field}:</b> {fieldValues.length > 0 ? fieldValues.map(valueText).join(", ") : <i>&lt;none&gt;</i>}</div>
+                                        )}
+                                    </div>;
+                                } else if (valueString.length == 0) {
+                                    content = <i>&lt;empty string&gt;</i>;
                                 } else if (valueString.trim().length == 0) {
                                     if (valueString.length != 1) {
-                                        return <div key={idx} className="m-1"><i>&lt;space ×{valueString.length}&gt;</i></div>
+                                        content = <i>&lt;space ×{valueString.length}&gt;</i>;
                                     } else {
-                                        return <div key={idx} className="m-1"><i>&lt;space&gt;</i></div>
+                                        content = <i>&lt;space&gt;</i>;
                                     }
                                 } else {
-                                    return <div key={idx} className="m-1">{valueString}</div>
+                                    content = valueString;
                                 }
+                                return <div key={idx} className="m-1 flex flex-row gap-1 items-start">
+                                    <div className="px-1 rounded bg-gray-200 text-gray-700">{value.type}</div>
+                                    <div>{content}</div>
+                                </div>
                             })
                         }
                     </div>
@@ -176,11 +308,209 @@ interface Nodes {
     [key: string]: Node<NodeProperties>
 }
 
+/**
+ * Determine how values pass along a connection between two node handles, see {@link connectionConversions}
+ * @param nodes Current nodes
+ * @param connection Connection or edge between the nodes
+ * @returns Types that values are converted to, or null if the handles are incompatible
+ */
+function handleConversions(nodes: Nodes, connection: Connection | Edge): ValueType[] | null {
+    const sourceHandle = connection.source != null ? nodes[connection.source]?.data.handles.source.find((handle) => handle.id == connection.sourceHandle) : undefined;
+    const targetHandle = connection.target != null ? nodes[connection.target]?.data.handles.target.find((handle) => handle.id == connection.targetHandle) : undefined;
+    if (sourceHandle == undefined || targetHandle == undefined) {
+        return null;
+    }
+    return connectionConversions(sourceHandle.types, targetHandle.types);
+}
+
+/**
+ * Check if the user may delete nodes of a type; Feed output is always present, item and result nodes are part of their for-each node
+ * @param nodeType Type of the node
+ */
+function isDeletable(nodeType: string): boolean {
+    return !["feedOutputNode", ITERATION_ITEM_NODE, ITERATION_RESULT_NODE].includes(nodeType);
+}
+
+/**
+ * Convert an editor node to its saved form
+ * @param node Node to convert
+ */
+function toPipelineNode(node: Node<NodeProperties>): PipelineNode {
+    return {
+        id: node.id,
+        type: node.type as string,
+        position: node.position,
+        ...node.parentNode != undefined ? {parent: node.parentNode} : {},
+        config: node.data.config
+    };
+}
+
+/**
+ * Convert an editor edge to its saved form
+ * @param edge Edge to convert
+ */
+function toPipelineEdge(edge: Edge): PipelineEdge {
+    return {
+        source: edge.source,
+        sourceHandle: edge.sourceHandle as string,
+        target: edge.target,
+        targetHandle: edge.targetHandle as string
+    };
+}
+
+/**
+ * Offset of pasted and duplicated nodes from the position they were copied from, so that they do not hide the original nodes
+ */
+const PASTE_OFFSET = 40;
+
+/**
+ * Check if keyboard input goes to a text input, whose own undo and clipboard shortcuts must not be overridden
+ * @param target Target of the keyboard or clipboard event
+ */
+function isTextInput(target: EventTarget | null): boolean {
+    return (target instanceof HTMLInputElement && target.type != "checkbox") || target instanceof HTMLTextAreaElement;
+}
+
+/**
+ * Position of a node relative to the canvas, rather than to its parent
+ * @param nodes Current nodes
+ * @param nodeID ID of the node
+ */
+function absolutePosition(nodes: Nodes, nodeID: string): { x: number, y: number } {
+    const node = nodes[nodeID];
+    if (node.parentNode != undefined && nodes[node.parentNode] != undefined) {
+        const parentPosition = absolutePosition(nodes, node.parentNode);
+        return {x: parentPosition.x + node.position.x, y: parentPosition.y + node.position.y};
+    } else {
+        return node.position;
+    }
+}
+
+/**
+ * Check if a node is contained in another node, directly or through other containers
+ * @param nodes Current nodes
+ * @param nodeID ID of the node
+ * @param ancestorID ID of the potential container
+ */
+function isDescendant(nodes: Nodes, nodeID: string, ancestorID: string): boolean {
+    for (let parent = nodes[nodeID]?.parentNode; parent != undefined; parent = nodes[parent]?.parentNode) {
+        if (parent == ancestorID) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Order nodes such that containers come before the nodes they contain, as required by ReactFlow
+ * @param nodes Nodes to order
+ */
+function orderByDepth(nodes: Nodes): Nodes {
+    const depth = (node: Node<NodeProperties>) => Object.keys(nodes).filter((ancestorID) => isDescendant(nodes, node.id, ancestorID)).length;
+    return Object.values(nodes)
+        .sort((a, b) => depth(a) - depth(b))
+        .reduce((prev: Nodes, curr) => ({...prev, [curr.id]: curr}), {});
+}
+
+/**
+ * Editor bar for stepping through the iterations of the for-each nodes containing the selected node
+ * @param iterations Containing for-each nodes, outermost first, with their number of iterations and the selected iteration
+ * @param onSelect Callback to select an iteration of a for-each node
+ * @constructor
+ */
+function IterationBar({iterations, onSelect}: { iterations: [string, number, number][], onSelect: (nodeID: string, iteration: number) => void }) {
+    return (
+        <div className="flex flex-row divide-x divide-gray-900 bg-gray-200">
+            {iterations.map(([nodeID, count, selected]) => {
+                return <div key={nodeID} className="flex flex-row gap-1 px-2">
+                    <span>For Each {nodeID}:</span>
+                    <button className="px-1 hover:bg-gray-400 disabled:text-gray-400" disabled={selected <= 0} onClick={() => onSelect(nodeID, selected - 1)}>◀</button>
+                    <span>{count > 0 ? "Iteration " + (selected + 1) + " of " + count : "No iterations"}</span>
+                    <button className="px-1 hover:bg-gray-400 disabled:text-gray-400" disabled={selected >= count - 1} onClick={() => onSelect(nodeID, selected + 1)}>▶</button>
+                </div>
+            })}
+        </div>
+    )
+}
+
+/**
+ * Panel listing the problems found in the pipeline, see {@link validatePipeline}
+ * @param findings Problems found in the pipeline
+ * @param onSelect Callback to focus the node of a finding
+ * @constructor
+ */
+function ProblemsPanel({findings, onSelect}: { findings: ValidationFinding[], onSelect: (nodeID: string) => void }) {
+    return (
+        <div className="flex flex-col max-h-24 overflow-y-auto bg-gray-200">
+            <div className="px-2 bg-gray-300">Problems ({findings.length})</div>
+            {findings.map((finding, idx) => {
+                return <button key={idx} className="flex flex-row gap-2 px-2 text-left hover:bg-gray-400" onClick={() => onSelect(finding.nodeID)}>
+                    <span className={"rounded px-1 text-white " + (finding.severity == "error" ? "bg-red-400" : "bg-yellow-500")}>
+                        {finding.severity == "error" ? "Error" : "Warning"}
+                    </span>
+                    <span>Node {finding.nodeID}: {finding.message}</span>
+                </button>
+            })}
+        </div>
+    )
+}
+
+/**
+ * Inspection box list of the problems found in the generated feed, see {@link validateFeed}
+ * @param findings Problems found in the feed
+ * @constructor
+ */
+function FeedFindingList({findings}: { findings: FeedFinding[] }) {
+    if (findings.length == 0) {
+        return (<InspectBoxMessage>No problems found</InspectBoxMessage>);
+    }
+    return (
+        <div className="flex flex-col gap-1 w-full px-1">
+            {findings.map((finding, idx) => {
+                return <div key={idx} className={"p-1 rounded border-2 " + (finding.severity == "error" ? "bg-red-50 border-red-500" : "bg-yellow-50 border-yellow-500")}>
+                    {feedFindingText(finding)}
+                </div>
+            })}
+        </div>
+    )
+}
+
+/**
+ * Label for edges that convert values, showing the type values are converted to
+ * @param conversions Conversions of the edge, see {@link handleConversions}
+ */
+function conversionLabel(conversions: ValueType[] | null): string | undefined {
+    return conversions != null && conversions.length > 0 ? "as " + conversions.join("/") : undefined;
+}
+
 /**
  * Main editor page component
  * @constructor
  */
 export default function Home() {
+    /**
+     * Current nodes and edges, updated on every render; For callbacks that are not recreated on every change
+     */
+    const graph = useRef({nodes: {} as Nodes, edges: [] as Edge[]});
+
+    /**
+     * Undo/redo history of the pipeline, as serialized pipelines; Selection, node sizes and pipe state are not part of the history
+     */
+    const {record: recordSnapshot, undo: undoSnapshot, redo: redoSnapshot, canUndo, canRedo} = useHistory<string>();
+
+    /**
+     * Serialize the current pipeline, for the history
+     */
+    const currentPipeline = useCallback(() => {
+        return serializePipeline(Object.values(graph.current.nodes).map(toPipelineNode), graph.current.edges.map(toPipelineEdge));
+    }, []);
+
+    /**
+     * Add an undo step for a change that is about to be made; Must be called before the change is applied to the state
+     * @param group Optional key of a series of changes that are undone at once, see {@link History.record}
+     */
+    const recordHistory = useCallback((group?: string) => recordSnapshot(currentPipeline(), group), [recordSnapshot, currentPipeline]);
+
     /**
      * Callback that handles node pipe updates, passed into {@link NodeProperties.onPipeUpdate}
      */
@@ -229,9 +559,48 @@ export default function Home() {
                     }
                 }));
                 break;
+            case PipeState.Pending:
+                setNodes((nodes) => ({
+                    ...nodes,
+                    [message.fromNode]: {
+                        ...nodes[message.fromNode],
+                        data: {
+                            ...nodes[message.fromNode].data,
+                            pipeValue: {
+                                kind: PipeState.Pending,
+                                progress: message.progress
+                            }
+                        }
+                    }
+                }));
+                break;
         }
     }, [])
 
+    /**
+     * Callback that handles node configuration updates, passed into {@link NodeProperties.onConfigUpdate}
+     *
+     * Configuration changes do not invalidate the pipe data cache by themselves; Nodes follow up with a pipe update if their pipe changes.
+     * Consecutive changes of the same fields of a node, such as typing in a text field, form a single undo step.
+     */
+    const handleNodeConfig = useCallback((nodeID: string, config: NodeConfig) => {
+        const previousConfig = (graph.current.nodes[nodeID]?.data.config ?? {}) as NodeConfig;
+        const changedFields = Object.keys(config).filter((field) => config[field] !== previousConfig[field]).sort();
+        recordHistory(nodeID + ":" + changedFields.join(","));
+        setNodes((nodes) => ({
+            ...nodes,
+            [nodeID]: {
+                ...nodes[nodeID],
+                data: {
+                    ...nodes[nodeID].data,
+                    // Handles of some node types depend on their configuration, see MapperDefinition.configHandles
+                    handles: nodeConfigHandles(nodes[nodeID].type as string, config),
+                    config: config
+                }
+            }
+        }));
+    }, [recordHistory])
+
     /**
      * Current nodeID; Node IDs must be unique so we simply increment this number for every new node to obtain a unique ID
      */
@@ -240,13 +609,19 @@ export default function Home() {
     /**
      * Editor is initialized to only having a Feed output node
      */
-    const initialNodes: Nodes = {"Feed": newNode("Feed", "feedOutputNode", {x: 600, y: 50}, false, handleNodeMessage)}
+    const initialNodes: Nodes = {"Feed": newNode("Feed", "feedOutputNode", {x: 600, y: 50}, false, (nodeDefinition("feedOutputNode") as NodeDefinition).defaultConfig, handleNodeMessage, handleNodeConfig)}
 
     /**
      * State containing ReactFlow nodes
      */
     const [nodes, setNodes] = useState(initialNodes);
     const [edges, setEdges] = useState([] as Edge[]);
+    graph.current = {nodes: nodes, edges: edges};
+
+    /**
+     * Incremented each time a pipeline is imported; Used as key to remount all nodes, so that each node fires a pipe update for its imported configuration
+     */
+    const [pipelineGeneration, setPipelineGeneration] = useState(0);
 
     /**
      * ReactFlow callback handling node changes
@@ -257,15 +632,92 @@ export default function Home() {
             if (changes.some((change) => change.type == "remove" || change.type == "add")) {
                 pipeCacheValid.current = false;
             }
+
+            // Additions, removals and moves can be undone; Drags are undone as a whole, so only their first position change is recorded
+            const moved = changes.some((change) => change.type == "position" && change.position != undefined);
+            if (changes.some((change) => change.type == "remove" || change.type == "add") || (moved && !dragInProgress.current)) {
+                recordHistory();
+            }
+            for (const change of changes) {
+                if (change.type == "position") {
+                    dragInProgress.current = change.dragging ?? false;
+                }
+            }
+
+            // Nodes contained in a removed node are removed along with it, including the non-deletable item and result nodes
+            const removed = changes.flatMap((change) => change.type == "remove" ? [change.id] : []);
+            const contained = Object.keys(nodes).filter((nodeID) => !removed.includes(nodeID) && removed.some((removedID) => isDescendant(nodes, nodeID, removedID)));
+            if (contained.length > 0) {
+                changes = [...changes, ...contained.map((nodeID): NodeRemoveChange => ({type: "remove", id: nodeID}))];
+                setEdges((edges) => edges.filter((edge) => !contained.includes(edge.source) && !contained.includes(edge.target)));
+            }
+
             setNodes(
                 (nds) =>
                     applyNodeChanges(changes, Object.values(nds))
                         .reduce((prev: Nodes, curr) => ({...prev, [curr.id]: curr}), {})
             )
         },
-        [setNodes]
+        [nodes, setNodes, recordHistory]
     );
 
+    /**
+     * True while nodes are being dragged, see {@link onNodesChange}
+     */
+    const dragInProgress = useRef(false);
+
+    /**
+     * ReactFlow callback handling the end of node drags; Nodes dropped onto a for-each node are moved into it, and nodes dragged out of one are moved out
+     */
+    const onNodeDragStop = useCallback((_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+        let newParents = {} as { [key: string]: [string | undefined, { x: number, y: number }] };
+        for (const dragged of draggedNodes) {
+            const node = nodes[dragged.id];
+            // Item and result nodes stay within their for-each node, nodes dragged along with their parent stay within it
+            if (node == undefined || node.extent == "parent" || draggedNodes.some((other) => other.id == node.parentNode)) {
+                continue;
+            }
+
+            const position = dragged.positionAbsolute ?? absolutePosition(nodes, node.id);
+            const center = {x: position.x + (dragged.width ?? 0) / 2, y: position.y + (dragged.height ?? 0) / 2};
+            // The innermost for-each node under the center of the dragged node becomes its parent
+            let parent = undefined as string | undefined;
+            for (const container of Object.values(nodes)) {
+                if (container.type != FOR_EACH_NODE || container.id == node.id || isDescendant(nodes, container.id, node.id)) {
+                    continue;
+                }
+                const containerPosition = absolutePosition(nodes, container.id);
+                if (
+                    center.x >= containerPosition.x && center.x <= containerPosition.x + (container.width ?? 0)
+                    && center.y >= containerPosition.y && center.y <= containerPosition.y + (container.height ?? 0)
+                    && (parent == undefined || isDescendant(nodes, container.id, parent))
+                ) {
+                    parent = container.id;
+                }
+            }
+
+            if (parent != node.parentNode) {
+                const parentPosition = parent != undefined ? absolutePosition(nodes, parent) : {x: 0, y: 0};
+                newParents[node.id] = [parent, {x: position.x - parentPosition.x, y: position.y - parentPosition.y}];
+            }
+        }
+
+        if (Object.keys(newParents).length > 0) {
+            const parentOf = (nodeID: string) => newParents[nodeID] != undefined ? newParents[nodeID][0] : nodes[nodeID]?.parentNode;
+            pipeCacheValid.current = false;
+            setNodes((nds) => orderByDepth(Object.fromEntries(Object.values(nds).map((node) => {
+                if (newParents[node.id] != undefined) {
+                    const [parent, position] = newParents[node.id];
+                    return [node.id, {...node, parentNode: parent, position: position}];
+                } else {
+                    return [node.id, node];
+                }
+            }))));
+            // Edges only connect nodes with the same parent
+            setEdges((edges) => edges.filter((edge) => parentOf(edge.source) == parentOf(edge.target)));
+        }
+    }, [nodes]);
+
     /**
      * ReactFlow callback handling edge changes
      */
@@ -274,154 +726,661 @@ export default function Home() {
             // If these changes add or remove an edge, invalidate pipe data cache
             if (changes.some((change) => change.type == "remove" || change.type == "add")) {    // Maybe also reset type?
                 pipeCacheValid.current = false;
+                recordHistory();
             }
             setEdges((eds) => applyEdgeChanges(changes, eds))
         },
-        [setEdges]
+        [setEdges, recordHistory]
     );
 
+    /**
+     * ReactFlow callback checking connections while they are made; Handles must have compatible value types
+     */
+    const isValidConnection = useCallback((connection: Connection) => {
+        return !createsCycle(edges, connection.source as string, connection.target as string)
+            && nodes[connection.source as string]?.parentNode == nodes[connection.target as string]?.parentNode
+            && handleConversions(nodes, connection) != null;
+    }, [nodes, edges]);
+
     /**
      * ReactFlow callback handling edge additions
      */
     const onConnect = useCallback((newEdge: Edge | Connection) => {
-        // Do not add edges targeting itself
-        if (newEdge.source == newEdge.target) {
+        // Do not add edges targeting itself, or edges through which the target would receive its own output
+        if (createsCycle(edges, newEdge.source as string, newEdge.target as string)) {
             return;
         }
 
-        setEdges((edges) => {
-            // Do not add duplicate edges
-            for (const edge of edges) {
-                if (
-                    edge.source == newEdge.source
-                    && edge.target == newEdge.target
-                    && edge.sourceHandle == newEdge.sourceHandle
-                    && edge.targetHandle == newEdge.targetHandle
-                ) {
-                    return edges;
-                }
+        // Do not add edges between nodes with different parents
+        if (nodes[newEdge.source as string]?.parentNode != nodes[newEdge.target as string]?.parentNode) {
+            return;
+        }
+
+        // Do not add edges between incompatible handles
+        const conversions = handleConversions(nodes, newEdge);
+        if (conversions == null) {
+            return;
+        }
+
+        // Do not add duplicate edges
+        for (const edge of edges) {
+            if (
+                edge.source == newEdge.source
+                && edge.target == newEdge.target
+                && edge.sourceHandle == newEdge.sourceHandle
+                && edge.targetHandle == newEdge.targetHandle
+            ) {
+                return;
             }
+        }
 
+        recordHistory();
+        setEdges((edges) => {
             // @ts-ignore
             newEdge.animated = true;
+            // @ts-ignore
+            newEdge.label = conversionLabel(conversions);
             // Invalidate pipe data cache as we are adding a new edge
             pipeCacheValid.current = false;
             return addEdge(newEdge, edges);
         })
-    }, [setEdges]);
+    }, [nodes, edges, setEdges, recordHistory]);
 
-    type CacheEntry = OutputCacheEntry | ErrorCacheEntry;
+    /**
+     * Download the current pipeline as JSON file
+     */
+    const exportPipeline = useCallback(() => {
+        const pipelineText = serializePipeline(Object.values(nodes).map(toPipelineNode), edges.map(toPipelineEdge));
 
-    type OutputCacheEntry = {
-        kind: "output",
-        input: { [key: string]: string[] },
-        output: { [key: string]: string[] },
-    }
+        const url = URL.createObjectURL(new Blob([pipelineText], {type: "application/json"}));
+        const anchor = document.createElement("a");
+        anchor.href = url;
+        anchor.download = "pipeline.json";
+        anchor.click();
+        URL.revokeObjectURL(url);
+    }, [nodes, edges]);
 
-    type ErrorCacheEntry = {
-        kind: "error",
-        input: { [key: string]: string[] },
-        error: string
-    }
+    /**
+     * Replace the current pipeline with a loaded pipeline
+     * @param pipeline Pipeline to load, as obtained from {@link parsePipeline}
+     * @throws Error if the pipeline contains unknown node types
+     */
+    const loadPipeline = useCallback((pipeline: PipelineDocument) => {
+        let loadedNodes: Nodes = {};
+        let maxNodeId = -1;
+        for (const node of pipeline.nodes) {
+            const definition = nodeDefinition(node.type);
+            if (definition == undefined) {
+                throw new Error("Unknown node type: " + node.type);
+            }
+            loadedNodes[node.id] = newNode(
+                node.id,
+                node.type,
+                node.position,
+                isDeletable(node.type),
+                {...definition.defaultConfig, ...node.config},
+                handleNodeMessage,
+                handleNodeConfig,
+                node.parent
+            );
+            // Continue numbering after the highest loaded ID, so new nodes do not collide
+            const numericID = parseInt(node.id);
+            if (!isNaN(numericID)) {
+                maxNodeId = Math.max(maxNodeId, numericID);
+            }
+        }
+
+        currentNodeId.current = maxNodeId + 1;
+        recordHistory();
+        pipeCacheValid.current = false;
+        setNodes(orderByDepth(loadedNodes));
+        setEdges(pipeline.edges.reduce((edges, edge) => addEdge({...edge, animated: true, label: conversionLabel(handleConversions(loadedNodes, edge))}, edges), [] as Edge[]));
+        setPipelineGeneration((generation) => generation + 1);
+    }, [handleNodeMessage, handleNodeConfig, recordHistory]);
+
+    /**
+     * Read a pipeline file and load it, reporting any errors to the user
+     */
+    const importPipeline = useCallback((file: File) => {
+        file.text()
+            .then((text) => loadPipeline(parsePipeline(text)))
+            .catch((error) => {
+                console.log("Pipeline import failed: ", error);
+                alert("Could not import pipeline: " + (error as Error).message);
+            });
+    }, [loadPipeline]);
+
+    /**
+     * Macros in the macro library of this browser; Loaded after the first render, as local storage is not available on the server
+     */
+    const [macros, setMacros] = useState([] as MacroDefinition[]);
+    useEffect(() => setMacros(loadMacroLibrary()), []);
+
+    /**
+     * Collapse the selected nodes into a macro node, and add the macro to the macro library
+     *
+     * Nodes within a selected for-each node are collapsed along with it. Edges that cross the boundary of the selection are connected to the macro node instead.
+     */
+    const collapseSelection = useCallback(() => {
+        const selected = Object.values(nodes).filter((node) => node.selected).map((node) => node.id);
+        const collapsed = Object.keys(nodes).filter((nodeID) => selected.includes(nodeID) || selected.some((selectedID) => isDescendant(nodes, nodeID, selectedID)));
+        const outerParents = new Set(collapsed.map((nodeID) => nodes[nodeID].parentNode).filter((parent) => parent == undefined || !collapsed.includes(parent)));
+
+        if (collapsed.some((nodeID) => nodes[nodeID].type == "feedOutputNode")) {
+            alert("The Feed Output node cannot be part of a macro");
+            return;
+        } else if (outerParents.size != 1) {
+            alert("A macro can only be created from nodes within the same For Each node");
+            return;
+        }
+        const [parent] = outerParents;
+        if (collapsed.some((nodeID) => !isDeletable(nodes[nodeID].type as string) && nodes[nodeID].parentNode == parent)) {
+            alert("Item and Result nodes can only be part of a macro along with their For Each node");
+            return;
+        }
+
+        const name = prompt("Macro name");
+        if (name == null || name.trim().length == 0) {
+            return;
+        }
+
+        const macro = createMacro(
+            name.trim(),
+            collapsed.map((nodeID) => toPipelineNode(nodes[nodeID])),
+            edges.map(toPipelineEdge),
+            Object.fromEntries(collapsed.map((nodeID) => [nodeID, nodes[nodeID].data.handles]))
+        );
+        setMacros(storeMacro(macro));
+
+        const macroID = (currentNodeId.current++).toString();
+        const outerNodes = collapsed.filter((nodeID) => nodes[nodeID].parentNode == parent);
+        const position = {
+            x: Math.min(...outerNodes.map((nodeID) => nodes[nodeID].position.x)),
+            y: Math.min(...outerNodes.map((nodeID) => nodes[nodeID].position.y))
+        };
+        let updatedNodes = Object.fromEntries(Object.entries(nodes).filter(([nodeID]) => !collapsed.includes(nodeID))) as Nodes;
+        updatedNodes[macroID] = newNode(macroID, MACRO_NODE, position, true, {macro: serializeMacro(macro)}, handleNodeMessage, handleNodeConfig, parent);
+
+        let updatedEdges = edges.filter((edge) => !collapsed.includes(edge.source) && !collapsed.includes(edge.target));
+        for (const edge of edges) {
+            let rewired: Connection;
+            if (collapsed.includes(edge.target) && !collapsed.includes(edge.source)) {
+                rewired = {...toPipelineEdge(edge), target: macroID, targetHandle: macroHandleID(edge.target, edge.targetHandle as string)};
+            } else if (collapsed.includes(edge.source) && !collapsed.includes(edge.target)) {
+                rewired = {...toPipelineEdge(edge), source: macroID, sourceHandle: macroHandleID(edge.source, edge.sourceHandle as string)};
+            } else {
+                continue;
+            }
+            updatedEdges = addEdge({...rewired, animated: true, label: conversionLabel(handleConversions(updatedNodes, rewired))}, updatedEdges);
+        }
+
+        recordHistory();
+        pipeCacheValid.current = false;
+        setNodes(updatedNodes);
+        setEdges(updatedEdges);
+    }, [nodes, edges, handleNodeMessage, handleNodeConfig, recordHistory]);
+
+    /**
+     * Replace a macro node by the nodes it contains, so that they can be edited
+     *
+     * Edges connected to the macro node are connected to the nodes within the macro instead. The macro library is not changed.
+     *
+     * @param nodeID ID of the macro node
+     */
+    const expandMacro = useCallback((nodeID: string) => {
+        const macroNode = nodes[nodeID];
+        let macro: MacroDefinition;
+        try {
+            macro = parseMacro(macroNode.data.config.macro as string);
+            const unknownNode = macro.pipeline.nodes.find((node) => nodeDefinition(node.type) == undefined);
+            if (unknownNode != undefined) {
+                // noinspection ExceptionCaughtLocallyJS; Reported along with parse errors
+                throw new Error("Unknown node type: " + unknownNode.type);
+            }
+        } catch (error) {
+            alert("Could not expand macro: " + (error as Error).message);
+            return;
+        }
+
+        // Nodes get new IDs, so that expanding the same macro multiple times does not produce duplicate IDs
+        const newIDs = Object.fromEntries(macro.pipeline.nodes.map((node) => [node.id, (currentNodeId.current++).toString()]));
+        let updatedNodes = Object.fromEntries(Object.entries(nodes).filter(([otherID]) => otherID != nodeID)) as Nodes;
+        for (const node of macro.pipeline.nodes) {
+            updatedNodes[newIDs[node.id]] = newNode(
+                newIDs[node.id],
+                node.type,
+                node.parent != undefined ? node.position : {x: macroNode.position.x + node.position.x, y: macroNode.position.y + node.position.y},
+                isDeletable(node.type),
+                {...(nodeDefinition(node.type) as NodeDefinition).defaultConfig, ...node.config},
+                handleNodeMessage,
+                handleNodeConfig,
+                node.parent != undefined ? newIDs[node.parent] : macroNode.parentNode
+            );
+        }
+        updatedNodes = orderByDepth(updatedNodes);
+
+        let connections = macro.pipeline.edges.map((edge): Connection => ({...edge, source: newIDs[edge.source], target: newIDs[edge.target]}));
+        for (const edge of edges) {
+            const input = macro.inputs.find((handle) => edge.target == nodeID && edge.targetHandle == handle.id);
+            const output = macro.outputs.find((handle) => edge.source == nodeID && edge.sourceHandle == handle.id);
+            if (input != undefined) {
+                connections.push({...toPipelineEdge(edge), target: newIDs[input.node], targetHandle: input.handle});
+            } else if (output != undefined) {
+                connections.push({...toPipelineEdge(edge), source: newIDs[output.node], sourceHandle: output.handle});
+            }
+        }
+
+        recordHistory();
+        pipeCacheValid.current = false;
+        setNodes(updatedNodes);
+        setEdges(connections.reduce(
+            (edges, connection) => addEdge({...connection, animated: true, label: conversionLabel(handleConversions(updatedNodes, connection))}, edges),
+            edges.filter((edge) => edge.source != nodeID && edge.target != nodeID)
+        ));
+    }, [nodes, edges, handleNodeMessage, handleNodeConfig, recordHistory]);
+
+    /**
+     * Replace the current nodes and edges with a pipeline from the history
+     *
+     * Nodes that are still present keep their state, and keep their configuration if it is unchanged, so that only nodes whose configuration changed recreate their pipe.
+     *
+     * @param pipelineText Serialized pipeline, as recorded by {@link recordHistory}
+     */
+    const restorePipeline = useCallback((pipelineText: string) => {
+        const pipeline = parsePipeline(pipelineText);
+        const currentNodes = graph.current.nodes;
+        let restoredNodes: Nodes = {};
+        for (const node of pipeline.nodes) {
+            const existing = currentNodes[node.id];
+            if (existing != undefined && existing.type == node.type) {
+                const configChanged = JSON.stringify(existing.data.config) != JSON.stringify(node.config);
+                restoredNodes[node.id] = {
+                    ...existing,
+                    position: node.position,
+                    parentNode: node.parent,
+                    ...node.type == FOR_EACH_NODE ? {style: {...existing.style, width: node.config.width as number, height: node.config.height as number}} : {},
+                    data: configChanged ? {...existing.data, config: node.config, handles: nodeConfigHandles(node.type, node.config)} : existing.data
+                };
+            } else {
+                restoredNodes[node.id] = newNode(node.id, node.type, node.position, isDeletable(node.type), node.config, handleNodeMessage, handleNodeConfig, node.parent);
+            }
+        }
+
+        pipeCacheValid.current = false;
+        setNodes(orderByDepth(restoredNodes));
+        setEdges(pipeline.edges.reduce((edges, edge) => addEdge({...edge, animated: true, label: conversionLabel(handleConversions(restoredNodes, edge))}, edges), [] as Edge[]));
+    }, [handleNodeMessage, handleNodeConfig]);
+
+    /**
+     * Undo the last change to the pipeline
+     */
+    const undo = useCallback(() => {
+        const pipelineText = undoSnapshot(currentPipeline());
+        if (pipelineText != undefined) {
+            restorePipeline(pipelineText);
+        }
+    }, [undoSnapshot, currentPipeline, restorePipeline]);
+
+    /**
+     * Redo the last undone change to the pipeline
+     */
+    const redo = useCallback(() => {
+        const pipelineText = redoSnapshot(currentPipeline());
+        if (pipelineText != undefined) {
+            restorePipeline(pipelineText);
+        }
+    }, [redoSnapshot, currentPipeline, restorePipeline]);
+
+    /**
+     * Serialize the selected nodes for the clipboard, in the pipeline format
+     *
+     * Nodes within selected for-each nodes are included, as are the edges between included nodes. Nodes whose for-each node is not included are moved out of it.
+     * The feed output node is never included, item and result nodes only along with their for-each node.
+     *
+     * @returns Serialized pipeline, or null if no node that can be copied is selected
+     */
+    const serializeSelection = useCallback((): string | null => {
+        const selected = Object.values(nodes).filter((node) => node.selected).map((node) => node.id);
+        const included = Object.keys(nodes).filter((nodeID) => selected.includes(nodeID) || selected.some((selectedID) => isDescendant(nodes, nodeID, selectedID)));
+        const copied = included.filter((nodeID) => isDeletable(nodes[nodeID].type as string) || included.includes(nodes[nodeID].parentNode as string));
+        if (copied.length == 0) {
+            return null;
+        }
+
+        return serializePipeline(
+            copied.map((nodeID) => {
+                const node = toPipelineNode(nodes[nodeID]);
+                if (node.parent != undefined && !copied.includes(node.parent)) {
+                    const {parent, ...topLevelNode} = node;
+                    return {...topLevelNode, position: absolutePosition(nodes, nodeID)};
+                }
+                return node;
+            }),
+            edges.filter((edge) => copied.includes(edge.source) && copied.includes(edge.target)).map(toPipelineEdge)
+        );
+    }, [nodes, edges]);
+
+    /**
+     * Add the nodes and edges of a serialized pipeline to the current pipeline, e.g. from the clipboard; The added nodes are selected
+     *
+     * Nodes get new IDs, and are placed next to the position they were copied from. Like {@link serializeSelection}, feed output nodes and detached item and result nodes are skipped.
+     *
+     * @param pipelineText Serialized pipeline
+     * @throws Error if the text is not a valid pipeline, or contains unknown node types
+     */
+    const pastePipeline = useCallback((pipelineText: string) => {
+        const pipeline = parsePipeline(pipelineText);
+        const unknownNode = pipeline.nodes.find((node) => nodeDefinition(node.type) == undefined);
+        if (unknownNode != undefined) {
+            throw new Error("Unknown node type: " + unknownNode.type);
+        }
+        const pastedIDs = pipeline.nodes.map((node) => node.id);
+        const pasted = pipeline.nodes.filter((node) => isDeletable(node.type) || (node.parent != undefined && pastedIDs.includes(node.parent)));
+        if (pasted.length == 0) {
+            return;
+        }
+
+        const newIDs = Object.fromEntries(pasted.map((node) => [node.id, (currentNodeId.current++).toString()]));
+        let updatedNodes = Object.fromEntries(Object.values(nodes).map((node) => [node.id, node.selected ? {...node, selected: false} : node])) as Nodes;
+        for (const node of pasted) {
+            const parent = node.parent != undefined ? newIDs[node.parent] : undefined;
+            updatedNodes[newIDs[node.id]] = {
+                ...newNode(
+                    newIDs[node.id],
+                    node.type,
+                    parent != undefined ? node.position : {x: node.position.x + PASTE_OFFSET, y: node.position.y + PASTE_OFFSET},
+                    isDeletable(node.type),
+                    {...(nodeDefinition(node.type) as NodeDefinition).defaultConfig, ...node.config},
+                    handleNodeMessage,
+                    handleNodeConfig,
+                    parent
+                ),
+                selected: parent == undefined
+            };
+        }
+        updatedNodes = orderByDepth(updatedNodes);
+
+        const connections = pipeline.edges
+            .filter((edge) => newIDs[edge.source] != undefined && newIDs[edge.target] != undefined)
+            .map((edge): Connection => ({...edge, source: newIDs[edge.source], target: newIDs[edge.target]}));
+
+        recordHistory();
+        pipeCacheValid.current = false;
+        setNodes(updatedNodes);
+        setEdges(connections.reduce(
+            (edges, connection) => addEdge({...connection, animated: true, label: conversionLabel(handleConversions(updatedNodes, connection))}, edges),
+            edges
+        ));
+    }, [nodes, edges, handleNodeMessage, handleNodeConfig, recordHistory]);
+
+    /**
+     * Remove the selected nodes that can be deleted, along with their edges
+     */
+    const removeSelection = useCallback(() => {
+        const removed = Object.values(nodes).filter((node) => node.selected && isDeletable(node.type as string)).map((node) => node.id);
+        if (removed.length > 0) {
+            onNodesChange(removed.map((nodeID): NodeRemoveChange => ({type: "remove", id: nodeID})));
+            setEdges((edges) => edges.filter((edge) => !removed.includes(edge.source) && !removed.includes(edge.target)));
+        }
+    }, [nodes, onNodesChange]);
+
+    /**
+     * Duplicate the selected nodes, without going through the clipboard
+     */
+    const duplicateSelection = useCallback(() => {
+        const pipelineText = serializeSelection();
+        if (pipelineText != null) {
+            pastePipeline(pipelineText);
+        }
+    }, [serializeSelection, pastePipeline]);
+
+    /**
+     * Copy the selected nodes to the clipboard, optionally removing them; For the toolbar, keyboard shortcuts use clipboard events instead
+     * @param cut If true, the copied nodes are removed
+     */
+    const copySelection = useCallback((cut: boolean) => {
+        const pipelineText = serializeSelection();
+        if (pipelineText == null) {
+            return;
+        }
+        navigator.clipboard.writeText(pipelineText)
+            .then(() => {
+                if (cut) {
+                    removeSelection();
+                }
+            })
+            .catch((error) => {
+                console.log("Copy failed: ", error);
+                alert("Could not copy nodes: " + (error as Error).message);
+            });
+    }, [serializeSelection, removeSelection]);
+
+    /**
+     * Paste nodes from the clipboard; For the toolbar, keyboard shortcuts use clipboard events instead
+     */
+    const pasteClipboard = useCallback(() => {
+        navigator.clipboard.readText()
+            .then((text) => pastePipeline(text))
+            .catch((error) => {
+                console.log("Paste failed: ", error);
+                alert("Could not paste nodes: " + (error as Error).message);
+            });
+    }, [pastePipeline]);
+
+    // Clipboard shortcuts; Clipboard events give access to the clipboard without asking for permission. Not within text inputs, which copy their own text
+    useEffect(() => {
+        function onCopy(event: ClipboardEvent, cut: boolean) {
+            const pipelineText = serializeSelection();
+            if (isTextInput(event.target) || event.clipboardData == null || pipelineText == null) {
+                return;
+            }
+            event.clipboardData.setData("text/plain", pipelineText);
+            event.preventDefault();
+            if (cut) {
+                removeSelection();
+            }
+        }
+
+        function onPaste(event: ClipboardEvent) {
+            const text = event.clipboardData?.getData("text/plain");
+            if (isTextInput(event.target) || text == undefined || text.length == 0) {
+                return;
+            }
+            event.preventDefault();
+            try {
+                pastePipeline(text);
+            } catch (error) {
+                // Pasting text that is not a pipeline is not an error; Any text may be on the clipboard
+                console.log("Clipboard does not contain nodes: ", error);
+            }
+        }
+
+        const copyListener = (event: ClipboardEvent) => onCopy(event, false);
+        const cutListener = (event: ClipboardEvent) => onCopy(event, true);
+        document.addEventListener("copy", copyListener);
+        document.addEventListener("cut", cutListener);
+        document.addEventListener("paste", onPaste);
+        return () => {
+            document.removeEventListener("copy", copyListener);
+            document.removeEventListener("cut", cutListener);
+            document.removeEventListener("paste", onPaste);
+        };
+    }, [serializeSelection, pastePipeline, removeSelection]);
+
+    // Ctrl+Z undoes, Ctrl+Shift+Z redoes and Ctrl+D duplicates; Not within text inputs, which undo their own text
+    useEffect(() => {
+        function onKeyDown(event: KeyboardEvent) {
+            if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) {
+                return;
+            }
+            if (event.key.toLowerCase() == "z") {
+                event.preventDefault();
+                if (event.shiftKey) {
+                    redo();
+                } else {
+                    undo();
+                }
+            } else if (event.key.toLowerCase() == "d") {
+                // Also prevents the browser from bookmarking the page
+                event.preventDefault();
+                duplicateSelection();
+            }
+        }
+
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [undo, redo, duplicateSelection]);
 
     /**
      * Cache for data pipe values.
      *
      * Has manual invalidation; ReactFlow fires a lot of state changes (once per frame when dragging nodes) and recalculating the dataflow is rather costly
+     * Evaluation is asynchronous and incremental; Entries are kept until evaluation reaches their node, nodes that are being evaluated again have a "pending" entry.
      */
     const pipeCache = useRef({} as { [key: string]: CacheEntry });
     const pipeCacheValid = useRef(false);
 
-    const loadCache = useCallback((nodeID: string): CacheEntry => {
-        if (pipeCache.current[nodeID]) {
-            return pipeCache.current[nodeID];
-        } else {
-            let inputHandles = nodes[nodeID].data.handles.target;
-
-            let inputData = {} as { [key: string]: string[] };
-            for (let edge of edges) {
-                if (edge.target == nodeID) {
-                    // @ts-ignore
-                    const handleInput = loadCache(edge.source).output?.[edge.sourceHandle as string];
-                    if (handleInput != undefined) {
-                        // Multiple inputs get appended
-                        if (inputData[edge.targetHandle as string]) {
-                            inputData[edge.targetHandle as string].push(...handleInput);
-                        } else {
-                            inputData[edge.targetHandle as string] = handleInput;
-                        }
+    /**
+     * Last completed pipeline evaluation, whose results are reused for unchanged nodes, see {@link PreviousEvaluation}
+     */
+    const lastEvaluation = useRef(undefined as PreviousEvaluation | undefined);
+
+    /**
+     * Incremented for each pipeline result, to re-render as results arrive
+     */
+    const [, setCacheVersion] = useState(0);
+
+    /**
+     * Controller of the currently running pipeline evaluation, aborted when a new evaluation starts
+     */
+    const pipelineRun = useRef(null as AbortController | null);
+
+    /**
+     * Whether a pipeline evaluation is running, to offer cancelling it
+     */
+    const [evaluating, setEvaluating] = useState(false);
+
+    // If cache has been marked invalid, re-evaluate the pipeline; Results are loaded into the cache as they arrive
+    // Invalidation always coincides with a change to nodes or edges
+    useEffect(() => {
+        if (!pipeCacheValid.current) {
+            pipeCacheValid.current = true;
+            pipelineRun.current?.abort();
+            const run = new AbortController();
+            pipelineRun.current = run;
+            setEvaluating(true);
+
+            // Entries of removed nodes are dropped, new nodes are pending until evaluated
+            pipeCache.current = Object.fromEntries(
+                Object.values(nodes).filter((node) => node.parentNode == undefined).map((node) => [node.id, pipeCache.current[node.id] ?? {kind: "pending", input: {}}])
+            );
+            setCacheVersion((version) => version + 1);
+            const evaluationNodes: { [key: string]: EvaluationNode } = Object.fromEntries(Object.values(nodes).map((node) => [
+                node.id,
+                {type: node.type as string, pipeValue: node.data.pipeValue, handles: node.data.handles, parent: node.parentNode}
+            ]));
+            evaluatePipeline(
+                evaluationNodes,
+                edges,
+                run.signal,
+                (nodeID, cacheEntry) => {
+                    // Results of cancelled or superseded runs are dropped
+                    if (run.signal.aborted) {
+                        return;
                     }
+                    pipeCache.current[nodeID] = cacheEntry;
+                    setCacheVersion((version) => version + 1);
+                },
+                lastEvaluation.current
+            ).then((results) => {
+                lastEvaluation.current = {nodes: evaluationNodes, results: results};
+            }).catch((error) => {
+                if (!run.signal.aborted) {
+                    console.log("ERR in pipeline evaluation: ", error);
                 }
-            }
-
-            let outputHandles = nodes[nodeID].data.handles.source;
-            let pipeValue = nodes[nodeID].data.pipeValue;
-            let cacheEntry: CacheEntry;
-            calcCache:
-                switch (pipeValue.kind) {
-                    case PipeState.BadConfig:
-                        cacheEntry = {
-                            kind: "error",
-                            input: inputData,
-                            error: "Node configuration is invalid"
-                        };
-                        break
-                    case PipeState.Err:
-                        cacheEntry = {
-                            kind: "error",
-                            input: inputData,
-                            error: pipeValue.error
-                        };
-                        break;
-                    case PipeState.Ok:
-                        for (let handle of inputHandles) {
-                            if ((!handle.optional) && (inputData[handle.id] == undefined || inputData[handle.id].length == 0)) {
-                                cacheEntry = {
-                                    kind: "error",
-                                    input: inputData,
-                                    error: "Missing input"
-                                };
-                                break calcCache;
-                            }
-                        }
-                        try {
-                            const outputData = pipeValue.mapper(inputData);
-                            for (let handle of outputHandles) {
-                                if (outputData[handle.id] == undefined) {
-                                    // Missing output is a fault in the implementation of Node
-                                    // noinspection ExceptionCaughtLocallyJS; We have to catch any errors originating from the node's data mapper anyway
-                                    throw new Error("Missing output data for node " + nodeID + " handle " + handle.id);
-                                }
-                            }
-                            cacheEntry = {
-                                kind: "output",
-                                input: inputData,
-                                output: outputData
-                            };
-                        } catch (e) {
-                            console.log("ERR in node implementation: ", e);
-                            cacheEntry = {
-                                kind: "error",
-                                input: inputData,
-                                error: "Error in node implementation"
-                            };
-                            break;
-                        }
-                        break;
+            }).finally(() => {
+                if (pipelineRun.current == run) {
+                    setEvaluating(false);
                 }
-
-            pipeCache.current[nodeID] = cacheEntry;
-            return cacheEntry;
+            });
         }
-    }, [edges, nodes]);
+    }, [nodes, edges]);
+
+    // Stop any running evaluation when the editor is closed
+    useEffect(() => () => pipelineRun.current?.abort(), []);
+
+    /**
+     * Stop the running pipeline evaluation; Nodes that were not evaluated yet show an error until the pipeline changes again
+     */
+    function cancelEvaluation() {
+        pipelineRun.current?.abort();
+        pipelineRun.current = null;
+        setEvaluating(false);
+        pipeCache.current = Object.fromEntries(Object.entries(pipeCache.current).map(([nodeID, entry]) => [
+            nodeID,
+            entry.kind == "pending" ? {kind: "error", input: entry.input, error: "Evaluation cancelled"} : entry
+        ]));
+        setCacheVersion((version) => version + 1);
+    }
+
+    /**
+     * Iteration shown for each for-each node, keyed by node ID; Nodes within a for-each node show their values of this iteration
+     */
+    const [selectedIterations, setSelectedIterations] = useState({} as { [key: string]: number });
 
-    // If cache has been marked invalid, re-calculate it
-    if (!pipeCacheValid.current) {
-        pipeCache.current = {};
-        for (let nodeID in nodes) {
-            loadCache(nodeID);
+    /**
+     * Look up the cache entry of a node; Entries of nodes within a for-each node are taken from the selected iteration
+     * @param nodeID ID of the node
+     * @returns Cache entry, or undefined if the node has not been evaluated as its for-each node has no iterations
+     */
+    const findCacheEntry = (nodeID: string): CacheEntry | undefined => {
+        const parentID = nodes[nodeID]?.parentNode;
+        if (parentID == undefined) {
+            return pipeCache.current[nodeID];
+        }
+        const parentEntry = findCacheEntry(parentID);
+        if (parentEntry?.kind == "pending") {
+            return parentEntry;
+        } else if (parentEntry != undefined && parentEntry.iterations != undefined && parentEntry.iterations.length > 0) {
+            const iteration = Math.min(selectedIterations[parentID] ?? 0, parentEntry.iterations.length - 1);
+            return parentEntry.iterations[iteration][nodeID];
+        } else {
+            return undefined;
         }
-        pipeCacheValid.current = true;
+    };
+
+    /**
+     * Feed Output node whose feed is served, see {@link validatePipeline}
+     */
+    const feedNodeID = Object.values(nodes).find((node) => node.type == "feedOutputNode" && node.parentNode == undefined)?.id;
+    const feedEntry = feedNodeID != undefined ? pipeCache.current[feedNodeID] : undefined;
+    const feedText = feedEntry?.kind == "output" ? valueText(feedEntry.output["feed-out"][0]) : undefined;
+
+    /**
+     * Problems found in the generated feed; Only checked again when the feed changes
+     */
+    const feedFindings = useMemo(() => feedText != undefined ? validateFeed(feedText, window) : undefined, [feedText]);
+
+    /**
+     * ReactFlow instance, to move the viewport to nodes
+     */
+    const flowInstance = useRef(null as ReactFlowInstance | null);
+
+    /**
+     * Structural problems of the pipeline, re-checked on every change
+     */
+    const findings = validatePipeline(
+        Object.fromEntries(Object.values(nodes).map((node) => [node.id, {type: node.type as string, handles: node.data.handles, parent: node.parentNode}])),
+        edges
+    );
+
+    /**
+     * Select a node and move the viewport to it, e.g. to show the node of a finding
+     * @param nodeID ID of the node
+     */
+    function focusNode(nodeID: string) {
+        onNodesChange(Object.values(nodes).map((node) => ({type: "select", id: node.id, selected: node.id == nodeID})));
+        flowInstance.current?.fitView({nodes: [{id: nodeID}], duration: 300, maxZoom: 1.5});
     }
 
     /**
@@ -436,9 +1395,11 @@ export default function Home() {
                     if (selectedNodes.length == 1) {
                         const [nodeID] = selectedNodes;
                         const selectedNode = nodes[nodeID];
-                        const cacheEntry = (pipeCache.current)[nodeID] as CacheEntry | undefined;
+                        const cacheEntry = findCacheEntry(nodeID);
 
-                        if (cacheEntry == undefined) {
+                        if (cacheEntry == undefined && selectedNode.parentNode != undefined) {
+                            return (<InspectBoxMessage>Not evaluated; The For Each node has no iterations</InspectBoxMessage>);
+                        } else if (cacheEntry == undefined) {
                             // Unreachable; All nodes should have a cache entry, containing any applicable error
                             return (<InspectBoxMessage isError={true}>Internal error: No cache</InspectBoxMessage>);
                         } else {
@@ -495,6 +1456,32 @@ export default function Home() {
                                         );
                                     }
                                     break;
+                                case "pending":
+                                    if (showInput) {
+                                        inspectbox.push(
+                                            <div key={2} className="flex flex-col gap-2 pt-2 grow resize-width-zero overflow-y-scroll overflow-x-clip break-all items-center">
+                                                <div className="px-1 rounded bg-gray-50">Output</div>
+                                                <InspectBoxMessage>Loading…</InspectBoxMessage>
+                                            </div>
+                                        );
+                                    } else {
+                                        inspectbox.push(
+                                            <div key={2} className="flex flex-col gap-2 pt-2 w-2/4 overflow-y-scroll overflow-x-clip break-all items-center">
+                                                <div className="px-1 rounded bg-gray-50">Output</div>
+                                                <InspectBoxMessage>Loading…</InspectBoxMessage>
+                                            </div>
+                                        );
+                                    }
+                                    break;
+                            }
+
+                            if (nodeID == feedNodeID && feedFindings != undefined) {
+                                inspectbox.push(
+                                    <div key={3} className="flex flex-col gap-2 pt-2 w-1/4 overflow-y-scroll overflow-x-clip break-words items-center">
+                                        <div className="px-1 rounded bg-gray-50">Validation</div>
+                                        <FeedFindingList findings={feedFindings}/>
+                                    </div>
+                                );
                             }
 
                             return inspectbox;
@@ -504,41 +1491,90 @@ export default function Home() {
                     }
                 })()}
             </div>
-            <NodeBar
-                nodeTypes={
-                    Object.entries(nodeTypes)
-                        .flatMap(([nodeType, nodeFn]) => {
-                            if (nodeType == "feedOutputNode") {
-                                return [];
-                            } else {
-                                // @ts-ignore;  Not all nodes have a displayName, but we check it to be not-undefined
-                                if (nodeFn.displayName != undefined) {
-                                    // @ts-ignore;  See above
-                                    return [[nodeType, nodeFn.displayName]];
-                                } else if (nodeFn.name != "anonymous" && nodeFn.name.length > 0) {
-                                    return [[nodeType, nodeFn.name]];
-                                } else {
-                                    return [[nodeType, nodeType]];
-                                }
-                            }
-                        })
+            {(() => {
+                // Step through the iterations of the selected for-each node, and of the for-each nodes containing the selected node
+                if (selectedNodes.length == 1) {
+                    let forEachNodes = [] as string[];
+                    for (let nodeID: string | undefined = selectedNodes[0]; nodeID != undefined; nodeID = nodes[nodeID]?.parentNode) {
+                        if (nodes[nodeID]?.type == FOR_EACH_NODE) {
+                            forEachNodes.unshift(nodeID);
+                        }
+                    }
+                    if (forEachNodes.length > 0) {
+                        return <IterationBar
+                            iterations={forEachNodes.map((nodeID) => {
+                                const entry = findCacheEntry(nodeID);
+                                const count = entry != undefined && entry.kind != "pending" ? entry.iterations?.length ?? 0 : 0;
+                                return [nodeID, count, Math.max(Math.min(selectedIterations[nodeID] ?? 0, count - 1), 0)];
+                            })}
+                            onSelect={(nodeID, iteration) => setSelectedIterations((selected) => ({...selected, [nodeID]: iteration}))}
+                        />
+                    }
                 }
+            })()}
+            {findings.length > 0 ? <ProblemsPanel findings={findings} onSelect={focusNode}/> : null}
+            <Toolbar
+                onUndo={canUndo ? undo : undefined}
+                onRedo={canRedo ? redo : undefined}
+                onCut={selectedNodes.length > 0 ? () => copySelection(true) : undefined}
+                onCopy={selectedNodes.length > 0 ? () => copySelection(false) : undefined}
+                onPaste={pasteClipboard}
+                onDuplicate={selectedNodes.length > 0 ? duplicateSelection : undefined}
+                onCancel={evaluating ? cancelEvaluation : undefined}
+                onExport={exportPipeline}
+                onImport={importPipeline}
+                onCollapse={selectedNodes.length > 0 ? collapseSelection : undefined}
+                onExpand={selectedNodes.length == 1 && nodes[selectedNodes[0]].type == MACRO_NODE ? () => expandMacro(selectedNodes[0]) : undefined}
+            />
+            <NodeBar
+                // Feed output is always present, item and result nodes are added along with their for-each node, macro nodes are added from the macro library
+                nodeTypes={nodeDefinitions().filter((definition) => !definition.internal && definition.type in nodeTypes)}
                 addNode={(nodeType: string) => {
+                    const nodeId = currentNodeId.current++;
+                    const config = (nodeDefinition(nodeType) as NodeDefinition).defaultConfig;
+                    let changes: NodeChange[] = [{
+                        type: "add",
+                        item: newNode(nodeId.toString(), nodeType, {x: 100 + (25 * (nodeId % 10)), y: 100 + (25 * (nodeId % 10))}, true, config, handleNodeMessage, handleNodeConfig)
+                    }];
+                    if (nodeType == FOR_EACH_NODE) {
+                        const itemId = currentNodeId.current++;
+                        const resultId = currentNodeId.current++;
+                        changes.push(
+                            {
+                                type: "add",
+                                item: newNode(itemId.toString(), ITERATION_ITEM_NODE, {x: 20, y: 60}, false, (nodeDefinition(ITERATION_ITEM_NODE) as NodeDefinition).defaultConfig, handleNodeMessage, handleNodeConfig, nodeId.toString())
+                            },
+                            {
+                                type: "add",
+                                item: newNode(resultId.toString(), ITERATION_RESULT_NODE, {x: (config.width as number) - 120, y: 60}, false, (nodeDefinition(ITERATION_RESULT_NODE) as NodeDefinition).defaultConfig, handleNodeMessage, handleNodeConfig, nodeId.toString())
+                            }
+                        );
+                    }
+                    onNodesChange(changes)
+                }}
+                macros={macros.map((macro) => macro.name)}
+                addMacro={(index: number) => {
                     const nodeId = currentNodeId.current++;
                     onNodesChange([{
                         type: "add",
-                        item: newNode(nodeId.toString(), nodeType, {x: 100 + (25 * (nodeId % 10)), y: 100 + (25 * (nodeId % 10))}, true, handleNodeMessage)
+                        item: newNode(nodeId.toString(), MACRO_NODE, {x: 100 + (25 * (nodeId % 10)), y: 100 + (25 * (nodeId % 10))}, true, {macro: serializeMacro(macros[index])}, handleNodeMessage, handleNodeConfig)
                     }])
                 }}
             />
             <ReactFlow
+                key={pipelineGeneration}
                 className="bg-gray-50 grow resize-height-zero"
                 nodeTypes={nodeTypes}
-                nodes={Object.values(nodes)}
+                nodes={Object.values(nodes)
+                    .map((node) => node.id == feedNodeID ? {...node, data: {...node.data, feedFindings: feedFindings}} : node)
+                    .map((node) => findCacheEntry(node.id)?.kind == "pending" ? {...node, className: "pipe-pending"} : node)}
                 edges={edges}
                 onNodesChange={onNodesChange}
                 onEdgesChange={onEdgesChange}
                 onConnect={onConnect}
+                onNodeDragStop={onNodeDragStop}
+                isValidConnection={isValidConnection}
+                onInit={(instance) => flowInstance.current = instance}
                 deleteKeyCode={["Backspace", "Delete"]}
             >
                 <Controls/>
@@ -546,4 +1582,4 @@ export default function Home() {
             </ReactFlow>
         </div>
     )
-}
+}
\ No newline at end of file
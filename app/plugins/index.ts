@@ -0,0 +1,6 @@
+// Node type plugins; Modules that add node types through registerNode (see @/app/feed/registry) are imported here,
+// so that their node types are available both in the editor and when feeds are generated on the server.
+//
+// Plugin modules must not depend on client-only code, custom editors are added from client modules through registerNodeEditor.
+
+export {};
\ No newline at end of file
@@ -12,9 +12,10 @@ import {PipeState, PipeMessage} from "@/app/feed/pipe";
  *
  * @param fromNode NodeID of node that originates this call; Used as the source of the PipeMessage
  * @param url URL to fetch
+ * @param signal Aborts the fetch, rejecting with the signal's reason
  */
-export async function client_fetch(fromNode: string, url: string): Promise<PipeMessage<string>> {
-    return fetch(url, {credentials: "omit"})
+export async function client_fetch(fromNode: string, url: string, signal?: AbortSignal): Promise<PipeMessage<string>> {
+    return fetch(url, {credentials: "omit", signal: signal})
         .then(async response => {
             if (response.ok) {
                 response.type
@@ -24,6 +25,9 @@ export async function client_fetch(fromNode: string, url: string): Promise<PipeM
             }
         })
         .catch((error) => {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
             // This matches the API of @/app/util/server/server_fetch, whose API has to return plain objects as a limitation of server actions
             if (typeof error == "string") {
                 return ({fromNode: fromNode, kind: PipeState.Err, error: error})
@@ -0,0 +1,31 @@
+'use client'
+
+import {PipeMessage} from "@/app/feed/pipe";
+import {client_fetch} from "@/app/util/client";
+
+/**
+ * Performs a fetch for a node in the editor and returns the result as a PipeMessage
+ *
+ * Depending on the deployment's fetch mode (FETCH_MODE, see next.config.js) this uses either {@link client_fetch} or {@link server_fetch}.
+ *
+ * @param fromNode NodeID of node that originates this call; Used as the source of the PipeMessage
+ * @param url URL to fetch
+ * @param signal Aborts the fetch, rejecting with the signal's reason
+ */
+export async function pipe_fetch(fromNode: string, url: string, signal?: AbortSignal): Promise<PipeMessage<string>> {
+    // FETCH_MODE is inlined at build time; In client mode this branch is removed, so server actions are not required
+    if (process.env.FETCH_MODE === "server") {
+        const {server_fetch} = await import("@/app/util/server");
+        signal?.throwIfAborted();
+        // Server actions cannot take a signal; The request continues on the server, but its result is no longer awaited
+        return new Promise((resolve, reject) => {
+            const abort = () => reject(signal?.reason);
+            signal?.addEventListener("abort", abort);
+            server_fetch(fromNode, url)
+                .then(resolve, reject)
+                .finally(() => signal?.removeEventListener("abort", abort));
+        });
+    } else {
+        return client_fetch(fromNode, url, signal);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import {describe, expect, it} from "vitest";
+import {checkURL, FetchPolicy, FetchPolicyError} from "@/app/util/fetchpolicy";
+
+const policy: FetchPolicy = {
+    allowedSchemes: ["http:", "https:"],
+    allowedPorts: [80, 443],
+    allowedHosts: [],
+    deniedHosts: [],
+    maxRedirects: 5,
+    maxResponseBytes: 1024,
+    timeoutMs: 1000
+};
+
+describe("checkURL", () => {
+    it("returns the checked addresses of public hosts", async () => {
+        expect(await checkURL(new URL("https://8.8.8.8/feed"), policy)).toEqual([{address: "8.8.8.8", family: 4}]);
+        expect(await checkURL(new URL("http://[2606:4700::1111]/"), policy)).toEqual([{address: "2606:4700::1111", family: 6}]);
+    });
+
+    it.each([
+        "http://127.0.0.1/",
+        "http://10.1.2.3/",
+        "http://169.254.169.254/latest/meta-data/",
+        "http://192.168.1.1/",
+        "http://0.0.0.0/",
+        "http://192.0.2.1/",
+        "http://198.51.100.1/",
+        "http://203.0.113.1/",
+        "http://[::1]/",
+        "http://[fc00::1]/",
+        "http://[fe80::1]/",
+        "http://[::ffff:127.0.0.1]/",
+        "http://[64:ff9b::7f00:1]/",
+        "http://[2001:0:4136:e378::1]/",
+        "http://[2002:7f00:1::1]/",
+        "http://localhost/"
+    ])("blocks non-public address %s", async (url) => {
+        await expect(checkURL(new URL(url), policy)).rejects.toThrow(/non-public address/);
+    });
+
+    it("blocks disallowed schemes and ports", async () => {
+        await expect(checkURL(new URL("file:///etc/passwd"), policy)).rejects.toThrow(FetchPolicyError);
+        await expect(checkURL(new URL("ftp://8.8.8.8/"), policy)).rejects.toThrow(/scheme ftp: is not allowed/);
+        await expect(checkURL(new URL("http://8.8.8.8:8080/"), policy)).rejects.toThrow(/port 8080 is not allowed/);
+    });
+
+    it("applies the allow and deny lists to hosts and their subdomains", async () => {
+        const listed = {...policy, allowedHosts: ["example.com"], deniedHosts: ["private.example.com"]};
+        await expect(checkURL(new URL("https://feeds.private.example.com/"), listed)).rejects.toThrow(/is denied/);
+        await expect(checkURL(new URL("https://example.org/"), listed)).rejects.toThrow(/not on the allow list/);
+        await expect(checkURL(new URL("https://notexample.com/"), listed)).rejects.toThrow(/not on the allow list/);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,276 @@
+import {LookupAddress} from "dns";
+import {lookup} from "dns/promises";
+import {BlockList, isIP, LookupFunction} from "net";
+import {Agent, fetch} from "undici";
+
+/**
+ * Restrictions on server-side fetches, limiting the SSRF risk of fetching arbitrary user-supplied URLs
+ *
+ * Server-only; See {@link serverFetchPolicy} for the configured policy.
+ */
+export interface FetchPolicy {
+    /**
+     * Allowed URL schemes, including trailing colon (e.g. "https:")
+     */
+    allowedSchemes: string[],
+    /**
+     * Allowed ports; URLs without explicit port use the scheme's default port
+     */
+    allowedPorts: number[],
+    /**
+     * If non-empty, only these hostnames (and their subdomains) may be fetched
+     */
+    allowedHosts: string[],
+    /**
+     * Hostnames (and their subdomains) that may never be fetched; Takes precedence over allowedHosts
+     */
+    deniedHosts: string[],
+    /**
+     * Maximum number of redirects followed, each redirect target is checked against this policy
+     */
+    maxRedirects: number,
+    /**
+     * Maximum response body size in bytes
+     */
+    maxResponseBytes: number,
+    /**
+     * Timeout for the entire fetch, including redirects and reading the body
+     */
+    timeoutMs: number
+}
+
+/**
+ * Error raised when a fetch violates the {@link FetchPolicy}; The message describes the violation and is shown to the user
+ */
+export class FetchPolicyError extends Error {
+    constructor(message: string) {
+        super("Blocked by fetch policy: " + message);
+        this.name = "FetchPolicyError";
+    }
+}
+
+/**
+ * Result of a policy-checked fetch; A plain object as the body has already been read to enforce the size limit
+ */
+export interface PolicyResponse {
+    ok: boolean,
+    status: number,
+    statusText: string,
+    text: string
+}
+
+/**
+ * Parse a comma-separated list from an environment variable
+ */
+function envList(name: string, defaultValue: string[]): string[] {
+    const value = process.env[name];
+    if (value == undefined || value.trim().length == 0) {
+        return defaultValue;
+    } else {
+        return value.split(",").map((entry) => entry.trim().toLowerCase()).filter((entry) => entry.length > 0);
+    }
+}
+
+/**
+ * Parse a number from an environment variable
+ */
+function envNumber(name: string, defaultValue: number): number {
+    const value = parseInt(process.env[name] ?? "");
+    return isNaN(value) ? defaultValue : value;
+}
+
+/**
+ * Fetch policy of this deployment, configured through environment variables:
+ * FETCH_ALLOWED_SCHEMES, FETCH_ALLOWED_PORTS, FETCH_ALLOWED_HOSTS, FETCH_DENIED_HOSTS (comma-separated lists),
+ * FETCH_MAX_REDIRECTS, FETCH_MAX_RESPONSE_BYTES and FETCH_TIMEOUT_MS
+ */
+export const serverFetchPolicy: FetchPolicy = {
+    allowedSchemes: envList("FETCH_ALLOWED_SCHEMES", ["http:", "https:"]),
+    allowedPorts: envList("FETCH_ALLOWED_PORTS", ["80", "443"]).map((port) => parseInt(port)),
+    allowedHosts: envList("FETCH_ALLOWED_HOSTS", []),
+    deniedHosts: envList("FETCH_DENIED_HOSTS", []),
+    maxRedirects: envNumber("FETCH_MAX_REDIRECTS", 5),
+    maxResponseBytes: envNumber("FETCH_MAX_RESPONSE_BYTES", 5 * 1024 * 1024),
+    timeoutMs: envNumber("FETCH_TIMEOUT_MS", 10000)
+};
+
+/**
+ * Addresses that are not publicly routable; Private, loopback, link-local, and other special-purpose ranges
+ */
+const nonPublicAddresses = new BlockList();
+nonPublicAddresses.addSubnet("0.0.0.0", 8, "ipv4");         // "This" network
+nonPublicAddresses.addSubnet("10.0.0.0", 8, "ipv4");        // Private
+nonPublicAddresses.addSubnet("100.64.0.0", 10, "ipv4");     // Carrier-grade NAT
+nonPublicAddresses.addSubnet("127.0.0.0", 8, "ipv4");       // Loopback
+nonPublicAddresses.addSubnet("169.254.0.0", 16, "ipv4");    // Link-local, includes cloud metadata endpoints
+nonPublicAddresses.addSubnet("172.16.0.0", 12, "ipv4");     // Private
+nonPublicAddresses.addSubnet("192.0.0.0", 24, "ipv4");      // IETF protocol assignments
+nonPublicAddresses.addSubnet("192.0.2.0", 24, "ipv4");      // Documentation (TEST-NET-1)
+nonPublicAddresses.addSubnet("192.168.0.0", 16, "ipv4");    // Private
+nonPublicAddresses.addSubnet("198.18.0.0", 15, "ipv4");     // Benchmarking
+nonPublicAddresses.addSubnet("198.51.100.0", 24, "ipv4");   // Documentation (TEST-NET-2)
+nonPublicAddresses.addSubnet("203.0.113.0", 24, "ipv4");    // Documentation (TEST-NET-3)
+nonPublicAddresses.addSubnet("224.0.0.0", 4, "ipv4");       // Multicast
+nonPublicAddresses.addSubnet("240.0.0.0", 4, "ipv4");       // Reserved, includes broadcast
+nonPublicAddresses.addSubnet("::", 128, "ipv6");            // Unspecified
+nonPublicAddresses.addSubnet("::1", 128, "ipv6");           // Loopback
+nonPublicAddresses.addSubnet("64:ff9b::", 96, "ipv6");      // NAT64, embeds IPv4 addresses
+nonPublicAddresses.addSubnet("2001::", 32, "ipv6");         // Teredo, embeds IPv4 addresses
+nonPublicAddresses.addSubnet("2002::", 16, "ipv6");         // 6to4, embeds IPv4 addresses
+nonPublicAddresses.addSubnet("fc00::", 7, "ipv6");          // Unique local
+nonPublicAddresses.addSubnet("fe80::", 10, "ipv6");         // Link-local
+nonPublicAddresses.addSubnet("ff00::", 8, "ipv6");          // Multicast
+
+/**
+ * Check if a hostname is, or is a subdomain of, any of the listed hosts
+ */
+function matchesHost(hostname: string, hosts: string[]): boolean {
+    return hosts.some((host) => hostname == host || hostname.endsWith("." + host));
+}
+
+/**
+ * Check a URL against a fetch policy, resolving its hostname to verify that all of its addresses are public
+ *
+ * The returned addresses must be the ones connected to, see {@link pinnedLookup}; Resolving the hostname again when connecting would allow a DNS record
+ * that changes in between (DNS rebinding) to point the connection at a non-public address.
+ *
+ * @param url URL to check
+ * @param policy Policy to check against
+ * @returns Checked addresses of the URL's host
+ * @throws FetchPolicyError if the URL violates the policy
+ */
+export async function checkURL(url: URL, policy: FetchPolicy): Promise<LookupAddress[]> {
+    if (!policy.allowedSchemes.includes(url.protocol)) {
+        throw new FetchPolicyError("scheme " + url.protocol + " is not allowed");
+    }
+
+    const port = url.port.length > 0 ? parseInt(url.port) : (url.protocol == "https:" ? 443 : 80);
+    if (!policy.allowedPorts.includes(port)) {
+        throw new FetchPolicyError("port " + port + " is not allowed");
+    }
+
+    // IPv6 literals are enclosed in brackets
+    const hostname = url.hostname.replace(/^\[(.*)]$/, "$1").toLowerCase();
+    if (matchesHost(hostname, policy.deniedHosts)) {
+        throw new FetchPolicyError("host " + hostname + " is denied");
+    }
+    if (policy.allowedHosts.length > 0 && !matchesHost(hostname, policy.allowedHosts)) {
+        throw new FetchPolicyError("host " + hostname + " is not on the allow list");
+    }
+
+    let addresses;
+    try {
+        addresses = await lookup(hostname, {all: true, verbatim: true});
+    } catch (e) {
+        throw new FetchPolicyError("host " + hostname + " could not be resolved");
+    }
+    if (addresses.length == 0) {
+        throw new FetchPolicyError("host " + hostname + " could not be resolved");
+    }
+    for (const {address, family} of addresses) {
+        if (isIP(address) == 0 || nonPublicAddresses.check(address, family == 6 ? "ipv6" : "ipv4")) {
+            throw new FetchPolicyError("host " + hostname + " resolves to non-public address " + address);
+        }
+    }
+    return addresses;
+}
+
+/**
+ * Create a DNS lookup function that answers with already checked addresses instead of resolving the hostname again
+ * @param addresses Addresses returned by {@link checkURL}
+ */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+    return (hostname, options, callback) => {
+        const matching = addresses.filter((address) => !options.family || address.family == options.family);
+        if (matching.length == 0) {
+            callback(Object.assign(new Error("no checked address of family " + options.family + " for " + hostname), {code: "ENOTFOUND"}), []);
+        } else if (options.all) {
+            callback(null, matching);
+        } else {
+            // Without the all option, connections expect a single address and its family instead of a list
+            (callback as unknown as (err: null, address: string, family: number) => void)(null, matching[0].address, matching[0].family);
+        }
+    };
+}
+
+/**
+ * Fetch a URL while enforcing a fetch policy
+ *
+ * Redirects are followed manually so that each redirect target is checked, and the response body is read up to the size limit.
+ * Each request connects to the addresses that were checked for it, see {@link checkURL}.
+ *
+ * @param url URL to fetch
+ * @param policy Policy to enforce
+ * @param signal Aborts the fetch; The returned promise then rejects with the signal's reason
+ * @throws FetchPolicyError if the fetch violates the policy, or other errors if the fetch fails
+ */
+export async function policyFetch(url: string, policy: FetchPolicy, signal?: AbortSignal): Promise<PolicyResponse> {
+    signal?.throwIfAborted();
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => abortController.abort(new FetchPolicyError("timed out after " + policy.timeoutMs + "ms")), policy.timeoutMs);
+    const abort = () => abortController.abort(signal?.reason);
+    signal?.addEventListener("abort", abort);
+    // Connections of the current request, pinned to its checked addresses
+    let agent: Agent | undefined;
+
+    try {
+        let currentURL = new URL(url);
+        let response;
+        for (let redirects = 0; ; redirects++) {
+            const addresses = await checkURL(currentURL, policy);
+            await agent?.close();
+            agent = new Agent({connect: {lookup: pinnedLookup(addresses)}});
+            response = await fetch(currentURL, {credentials: "omit", redirect: "manual", signal: abortController.signal, dispatcher: agent});
+
+            const location = response.headers.get("Location");
+            if (response.status >= 300 && response.status < 400 && location != null) {
+                if (redirects >= policy.maxRedirects) {
+                    throw new FetchPolicyError("more than " + policy.maxRedirects + " redirects");
+                }
+                await response.body?.cancel();
+                currentURL = new URL(location, currentURL);
+            } else {
+                break;
+            }
+        }
+
+        const contentLength = parseInt(response.headers.get("Content-Length") ?? "");
+        if (contentLength > policy.maxResponseBytes) {
+            throw new FetchPolicyError("response of " + contentLength + " bytes exceeds limit of " + policy.maxResponseBytes + " bytes");
+        }
+
+        // Content-Length may be absent or wrong, so the limit is also enforced while reading
+        let chunks = [] as Uint8Array[];
+        let size = 0;
+        if (response.body != null) {
+            const reader = response.body.getReader();
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                size += chunk.value.byteLength;
+                if (size > policy.maxResponseBytes) {
+                    await reader.cancel();
+                    throw new FetchPolicyError("response exceeds limit of " + policy.maxResponseBytes + " bytes");
+                }
+                chunks.push(chunk.value);
+            }
+        }
+
+        const decoder = new TextDecoder();
+        return {
+            ok: response.ok,
+            status: response.status,
+            statusText: response.statusText,
+            text: chunks.map((chunk) => decoder.decode(chunk, {stream: true})).join("") + decoder.decode()
+        };
+    } catch (e) {
+        // Abort errors carry the reason of the timeout or the caller's signal
+        if (abortController.signal.aborted) {
+            throw abortController.signal.reason;
+        } else {
+            throw e;
+        }
+    } finally {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", abort);
+        await agent?.destroy();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import {describe, expect, it} from "vitest";
+import {createHistoryStacks, GROUP_TIMEOUT_MS} from "@/app/util/history";
+
+/**
+ * History stacks with a clock that is advanced manually
+ */
+function history(limit: number = 100) {
+    let time = 0;
+    const stacks = createHistoryStacks<string>(limit, () => time);
+    return {stacks: stacks, advance: (ms: number) => time += ms};
+}
+
+describe("createHistoryStacks", () => {
+    it("undoes and redoes steps, restoring the current state on redo", () => {
+        const {stacks} = history();
+        stacks.record("a");
+        stacks.record("b");
+        expect(stacks.undo("c")).toEqual("b");
+        expect(stacks.undo("b")).toEqual("a");
+        expect(stacks.undo("a")).toBeUndefined();
+        expect(stacks.redo("a")).toEqual("b");
+        expect(stacks.redo("b")).toEqual("c");
+        expect(stacks.redo("c")).toBeUndefined();
+    });
+
+    it("clears redo steps when a step is recorded, and ignores unchanged snapshots", () => {
+        const {stacks} = history();
+        stacks.record("a");
+        stacks.undo("b");
+        stacks.record("a");
+        stacks.record("a");
+        expect(stacks.past).toEqual(["a"]);
+        expect(stacks.future).toEqual([]);
+    });
+
+    it("drops the oldest steps beyond its limit", () => {
+        const {stacks} = history(2);
+        stacks.record("a");
+        stacks.record("b");
+        stacks.record("c");
+        expect(stacks.past).toEqual(["b", "c"]);
+    });
+
+    it("merges consecutive steps of the same group into the first", () => {
+        const {stacks, advance} = history();
+        stacks.record("a", "title");
+        advance(GROUP_TIMEOUT_MS);
+        stacks.record("ab", "title");
+        advance(GROUP_TIMEOUT_MS);
+        stacks.record("abc", "title");
+        expect(stacks.past).toEqual(["a"]);
+        expect(stacks.undo("abcd")).toEqual("a");
+    });
+
+    it("ends a group when another step is recorded, a step is undone or redone, or the group pauses", () => {
+        const {stacks, advance} = history();
+        stacks.record("a", "title");
+        stacks.record("b", "link");
+        stacks.record("c", "title");
+        stacks.record("d");
+        stacks.record("e", "title");
+        expect(stacks.past).toEqual(["a", "b", "c", "d", "e"]);
+
+        expect(stacks.undo("f")).toEqual("e");
+        stacks.record("e", "title");
+        expect(stacks.past).toEqual(["a", "b", "c", "d", "e"]);
+        expect(stacks.undo("f")).toEqual("e");
+        expect(stacks.redo("e")).toEqual("f");
+        stacks.record("f", "title");
+        expect(stacks.past).toEqual(["a", "b", "c", "d", "e", "f"]);
+
+        advance(GROUP_TIMEOUT_MS + 1);
+        stacks.record("g", "title");
+        expect(stacks.past).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,145 @@
+'use client'
+
+import {useCallback, useRef, useState} from "react";
+
+/**
+ * Time in milliseconds after which a step no longer merges with the following step of the same group, so that separate interactions, such as editing the same field again later, are undone separately
+ */
+export const GROUP_TIMEOUT_MS = 1000;
+
+/**
+ * Undo/redo history, see {@link useHistory}
+ */
+export interface History<T> {
+    /**
+     * Add a step to the history; Clears the redo steps
+     *
+     * Recording the same snapshot as the last recorded one is ignored, so that several callbacks handling the same user action (e.g. node and edge removals of a single deletion) add only one step.
+     *
+     * @param snapshot State before the step
+     * @param group Optional key of a series of changes that form a single step, e.g. keystrokes in the same field;
+     * Consecutive steps with the same group are merged into the first, until a step of another group (or none) is recorded, a step is undone or redone,
+     * or no step of the group was recorded for {@link GROUP_TIMEOUT_MS}
+     */
+    record: (snapshot: T, group?: string) => void,
+    /**
+     * Undo the last step
+     * @param current Current state, restored by a following redo
+     * @returns State to restore, or undefined if there is nothing to undo
+     */
+    undo: (current: T) => T | undefined,
+    /**
+     * Redo the last undone step
+     * @param current Current state, restored by a following undo
+     * @returns State to restore, or undefined if there is nothing to redo
+     */
+    redo: (current: T) => T | undefined,
+    canUndo: boolean,
+    canRedo: boolean
+}
+
+/**
+ * Undo and redo stacks of a {@link History}, independent of React
+ */
+export interface HistoryStacks<T> extends Omit<History<T>, "canUndo" | "canRedo"> {
+    /**
+     * Steps that can be undone, oldest first
+     */
+    readonly past: readonly T[],
+    /**
+     * Steps that can be redone, most recently undone last
+     */
+    readonly future: readonly T[]
+}
+
+/**
+ * Create undo and redo stacks of state snapshots
+ * @param limit Maximum number of steps that can be undone, the oldest steps are dropped
+ * @param now Current time in milliseconds, for merging steps of a group (Default: Date.now)
+ */
+export function createHistoryStacks<T>(limit: number, now: () => number = Date.now): HistoryStacks<T> {
+    let past = [] as T[];
+    let future = [] as T[];
+    // Group and time of the last recorded step, see History.record
+    let lastGroup: string | undefined = undefined;
+    let lastTime = -Infinity;
+
+    return {
+        get past() {
+            return past;
+        },
+        get future() {
+            return future;
+        },
+        record: (snapshot, group) => {
+            const time = now();
+            const merged = group != undefined && group == lastGroup && time - lastTime <= GROUP_TIMEOUT_MS;
+            lastGroup = group;
+            lastTime = time;
+            if (merged || (past.length > 0 && past[past.length - 1] === snapshot)) {
+                return;
+            }
+            past = [...past.slice(-(limit - 1)), snapshot];
+            future = [];
+        },
+        undo: (current) => {
+            if (past.length == 0) {
+                return undefined;
+            }
+            const snapshot = past[past.length - 1];
+            past = past.slice(0, -1);
+            future = [...future, current];
+            lastGroup = undefined;
+            return snapshot;
+        },
+        redo: (current) => {
+            if (future.length == 0) {
+                return undefined;
+            }
+            const snapshot = future[future.length - 1];
+            future = future.slice(0, -1);
+            past = [...past, current];
+            lastGroup = undefined;
+            return snapshot;
+        }
+    };
+}
+
+/**
+ * Hook keeping an undo/redo history of state snapshots
+ *
+ * Snapshots are compared with `===`; Use immutable values such as strings, so that recording unchanged state can be detected.
+ *
+ * @param limit Maximum number of steps that can be undone, the oldest steps are dropped (Default: 100)
+ */
+export function useHistory<T>(limit: number = 100): History<T> {
+    // Stacks are kept in a ref so that undo and redo return synchronously; Changing them re-renders to update canUndo and canRedo
+    const stacks = useRef(undefined as HistoryStacks<T> | undefined);
+    stacks.current ??= createHistoryStacks<T>(limit);
+    const [, setVersion] = useState(0);
+
+    /**
+     * Apply a change to the stacks, re-rendering if they changed
+     */
+    const change = useCallback(<R>(apply: (stacks: HistoryStacks<T>) => R): R => {
+        const history = stacks.current as HistoryStacks<T>;
+        const {past, future} = history;
+        const result = apply(history);
+        if (history.past !== past || history.future !== future) {
+            setVersion((version) => version + 1);
+        }
+        return result;
+    }, []);
+
+    const record = useCallback((snapshot: T, group?: string) => change((history) => history.record(snapshot, group)), [change]);
+    const undo = useCallback((current: T) => change((history) => history.undo(current)), [change]);
+    const redo = useCallback((current: T) => change((history) => history.redo(current)), [change]);
+
+    return {
+        record: record,
+        undo: undo,
+        redo: redo,
+        canUndo: stacks.current.past.length > 0,
+        canRedo: stacks.current.future.length > 0
+    };
+}
\ No newline at end of file
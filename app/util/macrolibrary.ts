@@ -0,0 +1,49 @@
+'use client'
+
+import {MacroDefinition, parseMacro, serializeMacro} from "@/app/feed/macros";
+
+/**
+ * Local storage key of the macro library
+ */
+const LIBRARY_KEY = "macroLibrary";
+
+/**
+ * Load the macro library of this browser
+ *
+ * Macros that can no longer be read are skipped, so that a single invalid macro does not make the whole library unavailable.
+ *
+ * @returns Stored macros, in order of storage
+ */
+export function loadMacroLibrary(): MacroDefinition[] {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? "[]");
+    } catch (e) {
+        console.log("Macro library is not valid JSON: ", e);
+        return [];
+    }
+    if (!Array.isArray(stored)) {
+        return [];
+    }
+
+    let macros = [] as MacroDefinition[];
+    for (let macroText of stored) {
+        try {
+            macros.push(parseMacro(macroText));
+        } catch (e) {
+            console.log("Skipped invalid macro: ", e);
+        }
+    }
+    return macros;
+}
+
+/**
+ * Add a macro to the macro library of this browser, replacing any macro with the same name
+ * @param macro Macro to store
+ * @returns Updated library
+ */
+export function storeMacro(macro: MacroDefinition): MacroDefinition[] {
+    const macros = [...loadMacroLibrary().filter((stored) => stored.name != macro.name), macro];
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(macros.map(serializeMacro)));
+    return macros;
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+'use client'
+
+import {AsyncPipeMapper, MapperError, PipeData} from "@/app/feed/pipe";
+import {NodeConfig} from "@/app/feed/pipeline";
+import type {MapperJob, MapperJobResult} from "@/app/feed/mapper.worker";
+
+/**
+ * Maximum number of workers; Further jobs wait until a worker is available
+ */
+const MAX_WORKERS = Math.max(1, Math.min(typeof navigator != "undefined" ? navigator.hardwareConcurrency ?? 4 : 4, 8));
+
+/**
+ * Workers that are not running a job, reused for the next jobs
+ */
+const idleWorkers = [] as Worker[];
+
+/**
+ * Jobs waiting for a worker, in order of arrival
+ */
+const waitingJobs = [] as ((worker: Worker) => void)[];
+
+/**
+ * Number of workers that exist, both idle and running a job
+ */
+let workerCount = 0;
+
+/**
+ * ID of the next job, to match results to jobs
+ */
+let nextJobID = 0;
+
+/**
+ * Start a worker that runs {@link MapperJob}s
+ */
+function createWorker(): Worker {
+    return new Worker(new URL("../feed/mapper.worker.ts", import.meta.url));
+}
+
+/**
+ * Obtain a worker for a job, waiting for one to become available if {@link MAX_WORKERS} are running jobs
+ * @param signal Signal to stop waiting
+ * @throws The signal's reason if it is aborted while waiting
+ */
+function acquireWorker(signal: AbortSignal): Promise<Worker> {
+    const idle = idleWorkers.pop();
+    if (idle != undefined) {
+        return Promise.resolve(idle);
+    } else if (workerCount < MAX_WORKERS) {
+        workerCount++;
+        return Promise.resolve(createWorker());
+    }
+    return new Promise((resolve, reject) => {
+        function onWorker(worker: Worker) {
+            signal.removeEventListener("abort", onAbort);
+            resolve(worker);
+        }
+
+        function onAbort() {
+            waitingJobs.splice(waitingJobs.indexOf(onWorker), 1);
+            reject(signal.reason);
+        }
+
+        waitingJobs.push(onWorker);
+        signal.addEventListener("abort", onAbort);
+    });
+}
+
+/**
+ * Hand a worker that finished its job to the next waiting job, or keep it for later jobs
+ */
+function releaseWorker(worker: Worker) {
+    const next = waitingJobs.shift();
+    if (next != undefined) {
+        next(worker);
+    } else {
+        idleWorkers.push(worker);
+    }
+}
+
+/**
+ * Terminate a worker that is stopped or failed, replacing it for the next waiting job
+ */
+function discardWorker(worker: Worker) {
+    worker.terminate();
+    const next = waitingJobs.shift();
+    if (next != undefined) {
+        next(createWorker());
+    } else {
+        workerCount--;
+    }
+}
+
+/**
+ * Run a mapper job in a worker
+ *
+ * Concurrently evaluated nodes run in workers of their own, up to {@link MAX_WORKERS}, so that they do not wait for each other. If the signal is aborted,
+ * e.g. because the node exceeded its time budget, the worker is terminated, as a mapper cannot be interrupted otherwise.
+ * Time spent waiting for a worker counts towards the node's time budget.
+ *
+ * @param job Job to run, without ID
+ * @param signal Signal to stop the job
+ * @returns Output of the mapper
+ * @throws MapperError if the mapper threw a MapperError, or the signal's reason if the job is stopped
+ */
+async function runJob(job: Omit<MapperJob, "id">, signal: AbortSignal): Promise<PipeData> {
+    if (signal.aborted) {
+        throw signal.reason;
+    }
+    const worker = await acquireWorker(signal);
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            releaseWorker(worker);
+            reject(signal.reason);
+            return;
+        }
+
+        const id = nextJobID++;
+
+        function cleanup() {
+            worker.removeEventListener("message", onMessage);
+            worker.removeEventListener("error", onError);
+            signal.removeEventListener("abort", onAbort);
+        }
+
+        function onMessage(event: MessageEvent<MapperJobResult>) {
+            const result = event.data;
+            if (result.id != id) {
+                return;
+            }
+            cleanup();
+            releaseWorker(worker);
+            if ("output" in result) {
+                resolve(result.output);
+            } else {
+                reject(result.mapperError ? new MapperError(result.error) : new Error(result.error));
+            }
+        }
+
+        function onError(event: ErrorEvent) {
+            cleanup();
+            discardWorker(worker);
+            reject(new Error("Worker failed: " + event.message));
+        }
+
+        function onAbort() {
+            cleanup();
+            discardWorker(worker);
+            reject(signal.reason);
+        }
+
+        worker.addEventListener("message", onMessage);
+        worker.addEventListener("error", onError);
+        signal.addEventListener("abort", onAbort);
+        worker.postMessage({...job, id: id} as MapperJob);
+    });
+}
+
+/**
+ * Mapper that runs a node's mapper in a worker, for node types that are {@link MapperDefinition.workerSafe}
+ *
+ * The worker creates the node's mapper from its configuration, as mappers themselves cannot be passed to a worker.
+ *
+ * @param nodeType Type of the node
+ * @param nodeID ID of the node
+ * @param config Configuration of the node, which must be valid
+ */
+export function workerMapper(nodeType: string, nodeID: string, config: NodeConfig): AsyncPipeMapper {
+    return (input, signal) => runJob({nodeType: nodeType, nodeID: nodeID, config: config, input: input}, signal);
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import {readFile} from "fs/promises";
+import path from "path";
+import {parsePipeline, PipelineDocument} from "@/app/feed/pipeline";
+
+/**
+ * Directory containing stored pipelines, one `<pipelineId>.json` file per pipeline as exported from the editor
+ *
+ * Configured through the PIPELINE_DIR environment variable, relative to the working directory (Default: "pipelines")
+ */
+const PIPELINE_DIR = path.resolve(process.env.PIPELINE_DIR ?? "pipelines");
+
+/**
+ * Pipeline IDs are used as file names, so are restricted to a safe set of characters
+ */
+const PIPELINE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Load a stored pipeline
+ *
+ * Server-only; Reads from the local filesystem.
+ *
+ * @param pipelineId ID of the pipeline
+ * @returns The pipeline, or null if no pipeline with this ID exists
+ * @throws Error if the stored pipeline is not a valid pipeline document
+ */
+export async function loadPipeline(pipelineId: string): Promise<PipelineDocument | null> {
+    if (!PIPELINE_ID_PATTERN.test(pipelineId)) {
+        return null;
+    }
+
+    let pipelineText;
+    try {
+        pipelineText = await readFile(path.join(PIPELINE_DIR, pipelineId + ".json"), {encoding: "utf-8"});
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code == "ENOENT") {
+            return null;
+        } else {
+            throw e;
+        }
+    }
+    return parsePipeline(pipelineText);
+}
\ No newline at end of file
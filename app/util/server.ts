@@ -1,29 +1,34 @@
 'use server'
 
 import {PipeState, PipeMessage} from "@/app/feed/pipe";
+import {policyFetch, serverFetchPolicy} from "@/app/util/fetchpolicy";
 
 /**
  * Performs a fetch and returns the result as a PipeMessage
  *
  * On success, message contains the body text
  *
- * Caution: This function performs arbitrary fetch from the server, creating a significant SSRF risk.
+ * Caution: This function performs fetch from the server, creating a significant SSRF risk.
+ * Fetches are restricted by {@link serverFetchPolicy}, violations are returned as Err messages.
  * See {@link client_fetch} for an equivalent that runs entirely on the client.
  *
  * @param fromNode NodeID of node that originates this call; Used as the source of the PipeMessage
  * @param url URL to fetch
+ * @param signal Aborts the fetch, rejecting with the signal's reason; Only available when called on the server, as signals cannot be passed to server actions
  */
-export async function server_fetch(fromNode: string, url: string): Promise<PipeMessage<string>> {
-    return fetch(url, {credentials: "omit"})
+export async function server_fetch(fromNode: string, url: string, signal?: AbortSignal): Promise<PipeMessage<string>> {
+    return policyFetch(url, serverFetchPolicy, signal)
         .then(async response => {
             if (response.ok) {
-                response.type
-                return {fromNode: fromNode, kind: PipeState.Ok, value: await response.text()} as PipeMessage<string>;
+                return {fromNode: fromNode, kind: PipeState.Ok, value: response.text} as PipeMessage<string>;
             } else {
                 return {fromNode: fromNode, kind: PipeState.Err, error: response.status + " " + response.statusText} as PipeMessage<string>;
             }
         })
         .catch((error) => {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
             // This is a bit clunky but this value is passed from server to client, so can only be a plain object; We must extract the message from the error object
             if (typeof error == "string") {
                 return ({fromNode: fromNode, kind: PipeState.Err, error: error})
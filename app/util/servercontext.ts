@@ -0,0 +1,18 @@
+import {JSDOM} from "jsdom";
+import {MapperEnvironment} from "@/app/feed/mappers";
+import {server_fetch} from "@/app/util/server";
+
+/**
+ * Shared DOM for server-side pipeline execution; Only used for its DOM APIs, its document is never modified
+ */
+const serverWindow = new JSDOM().window;
+
+/**
+ * Mapper environment for executing pipelines on the server
+ *
+ * Server-only; Uses jsdom as DOM implementation, and fetches through {@link server_fetch}
+ */
+export const serverMapperEnvironment: MapperEnvironment = {
+    dom: serverWindow as unknown as MapperEnvironment["dom"],
+    fetch: server_fetch
+};
\ No newline at end of file
@@ -1,9 +1,34 @@
+/**
+ * Deployment mode; "client" (default) builds a static export that runs entirely in the browser,
+ * "server" runs a Next.js server that additionally serves generated feeds (See app/feeds/[pipelineId]/route.server.ts)
+ */
+const serverMode = process.env.PIPES_MODE === "server";
+
+/**
+ * Fetch mode for nodes in the editor; "client" fetches directly from the browser (subject to CORS),
+ * "server" fetches through the server (See app/util/server.ts). Defaults to "server" in server mode.
+ */
+const fetchMode = process.env.FETCH_MODE ?? (serverMode ? "server" : "client");
+if (fetchMode !== "client" && fetchMode !== "server") {
+    throw new Error("FETCH_MODE must be either \"client\" or \"server\"");
+} else if (fetchMode === "server" && !serverMode) {
+    throw new Error("FETCH_MODE=server requires PIPES_MODE=server");
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-    output: "export",
+    output: serverMode ? undefined : "export",
+    // Server-only routes use the ".server.ts" extension, so that they are left out of the static export
+    pageExtensions: serverMode ? ["tsx", "ts", "jsx", "js", "server.ts"] : ["tsx", "ts", "jsx", "js"],
+    env: {
+        FETCH_MODE: fetchMode,
+    },
     // assetPrefix: '/pipedemo/',
     experimental: {
-        // serverActions: true,
+        // Server actions (app/util/server.ts) are only available when running a server
+        serverActions: serverMode,
+        // The fetch policy (See app/util/fetchpolicy.ts) uses undici, whose syntax webpack cannot parse; Next.js already treats jsdom this way
+        serverComponentsExternalPackages: ["undici"],
     },
 }
 
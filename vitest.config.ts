@@ -0,0 +1,15 @@
+import {fileURLToPath} from "url";
+import {defineConfig} from "vitest/config";
+
+// Unit tests of modules that do not depend on the editor; Tests are next to the module they test, as <module>.test.ts
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@": fileURLToPath(new URL(".", import.meta.url))
+        }
+    },
+    test: {
+        include: ["app/**/*.test.ts"],
+        environment: "node"
+    }
+});
\ No newline at end of file